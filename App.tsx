@@ -1,10 +1,36 @@
 import React, { useState } from 'react';
 import { Intro } from './components/Intro';
 import { ARView } from './components/ARView';
+import { Gallery } from './components/Gallery';
+import { Bestiary } from './components/Bestiary';
+import { HauntedMap } from './components/HauntedMap';
+import { AttractLoop } from './components/AttractLoop';
+import { useIdleTimeout } from './components/useIdleTimeout';
+import { useWakeLock } from './components/useWakeLock';
+import { useScanQueue } from './components/useScanQueue';
+import { KioskSettings, loadKiosk, saveKiosk } from './services/kiosk';
 import { AppMode } from './types';
 
 function App() {
   const [mode, setMode] = useState<AppMode>('intro');
+  // Offline captures are revealed whatever screen is open, not only in the scanner
+  const scanQueue = useScanQueue();
+  const [kiosk, setKiosk] = useState(loadKiosk);
+  // Attract loop over the intro while an unattended kiosk waits for the next visitor
+  const [attract, setAttract] = useState(false);
+  // A scan in progress can outlast the idle time; the timer starts over once it is back to idle
+  const [scanning, setScanning] = useState(false);
+
+  useWakeLock(kiosk.enabled);
+  useIdleTimeout(kiosk.enabled && !scanning ? kiosk.idleSeconds * 1000 : null, () => {
+    setMode('intro');
+    setAttract(true);
+  });
+
+  const handleKioskChange = (settings: KioskSettings) => {
+    setKiosk(settings);
+    saveKiosk(settings);
+  };
 
   const handleStart = () => {
     setMode('scanner');
@@ -20,12 +46,29 @@ function App() {
         <Intro 
           onStart={handleStart} 
           onAbout={() => {}} 
+          onGallery={() => setMode('gallery')}
+          onBestiary={() => setMode('bestiary')}
+          onMap={() => setMode('map')}
         />
       )}
       
       {mode === 'scanner' && (
-        <ARView onBack={handleBack} />
+        <ARView onBack={handleBack} scanQueue={scanQueue} kiosk={kiosk} onKioskChange={handleKioskChange} onBusyChange={setScanning} />
+      )}
+
+      {mode === 'gallery' && (
+        <Gallery onBack={handleBack} canDelete={!kiosk.enabled} />
       )}
+
+      {mode === 'bestiary' && (
+        <Bestiary onBack={handleBack} />
+      )}
+
+      {mode === 'map' && (
+        <HauntedMap onBack={handleBack} />
+      )}
+
+      {kiosk.enabled && attract && mode === 'intro' && <AttractLoop onDismiss={() => setAttract(false)} />}
     </div>
   );
 }
@@ -1,148 +1,697 @@
 import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { ArrowLeft, Aperture, RefreshCw, Share2, Loader2, Settings, Save, X } from 'lucide-react';
-import { scanForInvisibleEntity, generateEntityVisualization, DEFAULT_PROMPT } from '../services/gemini';
-import { ScanResult } from '../types';
+import { ArrowLeft, Aperture, ImageUp, MessageCircleQuestionMark, Volume2, Pause, Play, Square, MapPin, Trophy, Link2, CloudOff, ShieldAlert, RefreshCw, Share2, Loader2, Settings, Save, X, ImageOff, Ban, Wand2 } from 'lucide-react';
+import { DEFAULT_TIMEOUTS, ProviderId, getDefaultProviderId, getProvider, listProviders } from '../services/provider';
+import { createScanId, listScans, saveScan } from '../services/storage';
+import { ContentBlockedError, DailyCapReachedError, EntityValidationError, ImageInputError, RequestError, RequestTimeoutError, isAbortError } from '../services/errors';
+import { AspectRatio, GenerationOptions, GeoTag, TileStatus, ImageSize, InterrogationMessage, InvisibleEntity, ScanResult, ScanSource, VisualizationAction } from '../types';
+import { ASPECT_RATIOS, MAX_SEED, MAX_VARIANTS, aspectRatioValue, isValidSeed, nearestAspectRatio, randomSeed } from '../services/generation';
+import { getRarityColor } from './rarity';
+import { BeforeAfterSlider } from './BeforeAfterSlider';
+import { DEFAULT_LIVE_SCAN, LiveScanSettings, useLiveScan } from './useLiveScan';
+import { LiveScanSection } from './LiveScanSection';
+import { ShareSheet } from './ShareSheet';
+import { usePresets } from './usePresets';
+import { PresetSection } from './PresetSection';
+import { PresetSwitcher } from './PresetSwitcher';
+import { CalibrationPreset } from '../services/presets';
+import { addVersion, appendTiles, createVersion, getHistory, getTileSlots, selectVersion } from '../services/visualizationHistory';
+import { TileEditor } from './TileEditor';
+import { InterrogationPanel } from './InterrogationPanel';
+import { DEFAULT_NARRATION, NarrationSettings, useNarration } from './useNarration';
+import { NarrationSection } from './NarrationSection';
+import { WorldSection } from './WorldSection';
+import { DEFAULT_WORLD, WorldSettings, relationChain, selectWorld } from '../services/world';
+import { ScanQueue } from './useScanQueue';
+import { UsageSection } from './UsageSection';
+import { isDailyCapReached, loadDailyCap, saveDailyCap } from '../services/usage';
+import { SafetySection } from './SafetySection';
+import { KioskSection } from './KioskSection';
+import { PinPrompt } from './PinPrompt';
+import { useIdleTimeout } from './useIdleTimeout';
+import { KioskSettings } from '../services/kiosk';
+import { browserGeoSource, findRevisit, loadLocationEnabled, requestCompassPermission, saveLocationEnabled } from '../services/geo';
+import { useCompass } from './useCompass';
+import { AchievementId, recordDiscovery } from '../services/bestiary';
+import { useI18n } from './I18nProvider';
+import { Messages } from '../services/locales/es';
+import { useCamera } from './useCamera';
+import { CameraControls } from './CameraControls';
+import { loadImageDataUrl, loadImageFile, pickImageFile } from '../services/imageInput';
+import { DEFAULT_PREPROCESS, PreparedImage, PreprocessSettings, formatBytes, preprocessImage } from '../services/preprocess';
+import { PreprocessSection } from './PreprocessSection';
+import { AnchorOverlay, mapViewToFrame } from './AnchorOverlay';
+
+interface VisualizationTile {
+  status: 'loading' | TileStatus;
+  url?: string;
+  imageIndex?: number; // position in generatedVisualizations once the scan is done
+}
+
+const describeScanError = (err: unknown, t: Messages): string => {
+  if (err instanceof ContentBlockedError) return t.safety.imageCensored;
+  if (err instanceof DailyCapReachedError) return t.usage.capReached;
+  if (err instanceof EntityValidationError) return t.scanner.invalidEntity;
+  if (err instanceof RequestTimeoutError) return t.scanner.timeout;
+  if (err instanceof RequestError && err.status === 429) return t.scanner.rateLimited;
+  if (err instanceof RequestError && err.status === 413) return t.scanner.tooLarge;
+  return t.scanner.genericError;
+};
+
+// New tiles added by one "Variaciones" request
+const VARIATION_COUNT = 2;
 
 interface ARViewProps {
   onBack: () => void;
+  scanQueue: ScanQueue;
+  kiosk: KioskSettings;
+  onKioskChange: (settings: KioskSettings) => void;
+  // Tells the app when a scan or its result is on screen, so the kiosk does not walk away from it
+  onBusyChange?: (busy: boolean) => void;
 }
 
-export const ARView: React.FC<ARViewProps> = ({ onBack }) => {
+export const ARView: React.FC<ARViewProps> = ({ onBack, scanQueue, kiosk, onKioskChange, onBusyChange }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const { locale, t } = useI18n();
   
-  const [stream, setStream] = useState<MediaStream | null>(null);
   const [error, setError] = useState<string | null>(null);
+  // Scan withheld by the safety filters: shown as a "censored anomaly" instead of an error
+  const [censored, setCensored] = useState<ContentBlockedError['source'] | null>(null);
   
   // Stages: 'idle', 'analyzing', 'visualizing', 'done'
   const [scanStage, setScanStage] = useState<'idle' | 'analyzing' | 'visualizing' | 'done'>('idle');
   const [result, setResult] = useState<ScanResult | null>(null);
   const [showDetails, setShowDetails] = useState(false);
+  // 'ar' draws the entity over the live feed at its anchor; 'grid' shows the standalone images
+  const [resultView, setResultView] = useState<'ar' | 'grid'>('ar');
+  const [overlayIndex, setOverlayIndex] = useState(0);
+  const [showShare, setShowShare] = useState(false);
+  // Progressive results: entity fields while streaming, then one tile per variant
+  const [partialEntity, setPartialEntity] = useState<Partial<InvisibleEntity> | null>(null);
+  const [tiles, setTiles] = useState<VisualizationTile[]>([]);
+  const activeScanRef = useRef<string | null>(null);
+  // Aborts every request of the scan in flight (Cancelar, reset, unmount)
+  const abortRef = useRef<AbortController | null>(null);
+  // Per-tile editing once the scan is done
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [busyTiles, setBusyTiles] = useState<number[]>([]);
+  const [pendingVariations, setPendingVariations] = useState(0);
+  const [editError, setEditError] = useState<string | null>(null);
+  // "Interrogar" chat; the transcript itself lives on the result
+  const [showInterrogation, setShowInterrogation] = useState(false);
+  const [pendingQuestion, setPendingQuestion] = useState<string | null>(null);
+  const [interrogationError, setInterrogationError] = useState<string | null>(null);
   
   // Settings / Prompt state
   const [showSettings, setShowSettings] = useState(false);
-  const [customPrompt, setCustomPrompt] = useState(DEFAULT_PROMPT);
-  const [negativePrompt, setNegativePrompt] = useState("texto, marcas de agua, cartoon, dibujo, baja calidad, borroso");
-  const [imageSize, setImageSize] = useState<'1K' | '2K' | '4K'>('1K');
+  // In kiosk mode the calibration panel opens only after the PIN
+  const [showPin, setShowPin] = useState(false);
+  const { presets, activePreset, selectPreset, savePreset, deletePreset, importFromFile, exportUserPresets } = usePresets(locale);
+  const [customPrompt, setCustomPrompt] = useState(activePreset.customPrompt);
+  const [negativePrompt, setNegativePrompt] = useState(activePreset.negativePrompt);
+  const [imageSize, setImageSize] = useState<ImageSize>(activePreset.imageSize);
+  const [aspectSetting, setAspectSetting] = useState<AspectRatio | 'auto'>('auto');
+  const [variantCount, setVariantCount] = useState(MAX_VARIANTS);
+  const [seed, setSeed] = useState(''); // empty = random
+  const [providerId, setProviderId] = useState<ProviderId>(getDefaultProviderId);
+  const [liveScanSettings, setLiveScanSettings] = useState<LiveScanSettings>(DEFAULT_LIVE_SCAN);
+  const [preprocessSettings, setPreprocessSettings] = useState<PreprocessSettings>(DEFAULT_PREPROCESS);
+  const [narrationSettings, setNarrationSettings] = useState<NarrationSettings>(DEFAULT_NARRATION);
+  const narration = useNarration(locale, narrationSettings);
+  const [worldSettings, setWorldSettings] = useState<WorldSettings>(DEFAULT_WORLD);
+  // Entities discovered in this session, oldest first; the coherent world draws its context from here
+  const [worldHistory, setWorldHistory] = useState<InvisibleEntity[]>([]);
+  // Location anchoring: scans remember where they were taken and the same spot brings the entity back
+  const [locationEnabled, setLocationEnabled] = useState(loadLocationEnabled);
+  const heading = useCompass(locationEnabled);
+  const headingRef = useRef(heading);
+  headingRef.current = heading;
+  const [revisitNotice, setRevisitNotice] = useState<string | null>(null);
+  // Achievements earned by the last scan, shown briefly as a banner
+  const [newAchievements, setNewAchievements] = useState<AchievementId[]>([]);
+  const [dailyCap, setDailyCap] = useState(loadDailyCap);
+  // Offline captures wait in IndexedDB and end up in the gallery once revealed
+  const [queueNotice, setQueueNotice] = useState<string | null>(null);
+  // Batches revealed before the scanner opened are already in the gallery; only new ones are announced
+  const seenRevealRef = useRef(scanQueue.lastRevealed);
+  // Last image actually sent, for the HUD readout
+  const [lastPayload, setLastPayload] = useState<PreparedImage | null>(null);
+
+  // Camera stream and controls; the hook releases every stream it opens
+  const camera = useCamera(videoRef);
+  const [focusRing, setFocusRing] = useState<{ x: number; y: number; id: number } | null>(null);
+  // Uploaded photo shown instead of the feed while it is scanned
+  const [stillImage, setStillImage] = useState<string | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Without a camera the scanner still works from uploads
+  const feedError = error ?? (camera.failed && !stillImage ? t.scanner.cameraError : null);
 
-  // Initialize Camera
   useEffect(() => {
-    const startCamera = async () => {
-      try {
-        const mediaStream = await navigator.mediaDevices.getUserMedia({
-          video: { 
-            facingMode: 'environment',
-            width: { ideal: 1920 }, // Try to get higher res for better AI analysis
-            height: { ideal: 1080 }
-          },
-          audio: false
-        });
-        setStream(mediaStream);
-        if (videoRef.current) {
-          videoRef.current.srcObject = mediaStream;
-        }
-      } catch (err) {
-        console.error("Camera error:", err);
-        setError("No se puede acceder a la cámara. Verifica los permisos.");
-      }
-    };
+    if (!focusRing) return;
+    const timeout = window.setTimeout(() => setFocusRing(null), 900);
+    return () => window.clearTimeout(timeout);
+  }, [focusRing]);
 
-    startCamera();
+  useEffect(() => () => abortRef.current?.abort(), []);
 
-    return () => {
-      if (stream) {
-        stream.getTracks().forEach(track => track.stop());
-      }
-    };
+  // Narrate once per reveal: leaving 'analyzing' with an entity (new one generating, or a revisit)
+  const previousStageRef = useRef(scanStage);
+  useEffect(() => {
+    const revealed = previousStageRef.current === 'analyzing' && scanStage !== 'idle';
+    previousStageRef.current = scanStage;
+    if (revealed && narrationSettings.autoplay && result?.entity) narration.speak(result.entity);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [scanStage]);
 
-  const handleScan = useCallback(async () => {
-    if (!videoRef.current || !canvasRef.current) return;
+  useEffect(() => {
+    onBusyChange?.(scanStage !== 'idle');
+  }, [scanStage, onBusyChange]);
+
+  useEffect(() => () => onBusyChange?.(false), [onBusyChange]);
+
+  useEffect(() => {
+    const revealed = scanQueue.lastRevealed;
+    if (!revealed || revealed === seenRevealRef.current) return;
+    seenRevealRef.current = revealed;
+    setQueueNotice(t.offline.revealed(revealed.length));
+  }, [scanQueue.lastRevealed, t]);
+
+  useEffect(() => {
+    if (!queueNotice) return;
+    const timeout = window.setTimeout(() => setQueueNotice(null), 5000);
+    return () => window.clearTimeout(timeout);
+  }, [queueNotice]);
+
+  useEffect(() => {
+    if (newAchievements.length === 0) return;
+    const timeout = window.setTimeout(() => setNewAchievements([]), 5000);
+    return () => window.clearTimeout(timeout);
+  }, [newAchievements]);
+
+  // A missing fix never blocks the scan; it just is not anchored
+  const locate = async (): Promise<GeoTag | null> => {
+    try {
+      return { ...(await browserGeoSource.getPosition()), heading: headingRef.current };
+    } catch (err) {
+      console.warn("Location unavailable:", err);
+      return null;
+    }
+  };
+
+  const toggleLocation = async () => {
+    const enabled = !locationEnabled;
+    if (enabled) {
+      // Both prompts must come from this tap; iOS ignores them otherwise
+      await requestCompassPermission();
+      browserGeoSource.getPosition().catch(() => {});
+    }
+    setLocationEnabled(enabled);
+    saveLocationEnabled(enabled);
+  };
+
+  // Archive in the local gallery, again after every edit; a storage failure must not hide the result
+  useEffect(() => {
+    if (result && scanStage === 'done') saveScan(result).catch(() => {});
+  }, [result, scanStage]);
+
+  // Closest supported ratio to the live camera feed
+  const cameraAspectRatio = (): AspectRatio =>
+    nearestAspectRatio(videoRef.current?.videoWidth ?? 0, videoRef.current?.videoHeight ?? 0);
+
+  // Scans an image from any source: a camera capture or an uploaded photo
+  const runScan = useCallback(async (prepared: PreparedImage, source: ScanSource) => {
+    const { dataUrl: imageBase64, width, height } = prepared;
+    const scanId = createScanId();
+    activeScanRef.current = scanId;
+    const isCurrent = () => activeScanRef.current === scanId;
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
 
     setScanStage('analyzing');
+    setLastPayload(prepared);
+    setError(null);
+    setCensored(null);
     setResult(null);
+    setPartialEntity(null);
+    setTiles([]);
+    setEditError(null);
+    setRevisitNotice(null);
 
-    const video = videoRef.current;
-    const canvas = canvasRef.current;
-    canvas.width = video.videoWidth;
-    canvas.height = video.videoHeight;
-    const ctx = canvas.getContext('2d');
-    
-    if (ctx) {
-      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-      // Increased quality to 0.95 for better AI detail detection
-      const imageBase64 = canvas.toDataURL('image/jpeg', 0.95);
-
-      try {
-        // Step 1: Detect/Create the text description
-        const entity = await scanForInvisibleEntity(imageBase64, customPrompt);
-        
-        setScanStage('visualizing');
-        
-        // Step 2: Generate the visual representations (x4)
-        const visualizationUrls = await generateEntityVisualization(entity, imageSize, negativePrompt);
+    const provider = getProvider(providerId);
 
-        setResult({
+    try {
+      // Uploaded photos may come from anywhere, so only camera scans are anchored
+      const location = source === 'camera' && locationEnabled ? await locate() : null;
+      const revisit = location ? findRevisit(location, await listScans().catch(() => [])) : null;
+      if (!isCurrent()) return;
+
+      // Back at a known spot: bring that entity back instead of hallucinating a new one
+      if (revisit?.entity) {
+        abortRef.current = null;
+        setResult(revisit);
+        setResultView(revisit.entity.anchor && revisit.source !== 'upload' ? 'ar' : 'grid');
+        setOverlayIndex(0);
+        setShowDetails(true);
+        setRevisitNotice(t.location.revisit(revisit.entity.title));
+        setNewAchievements(recordDiscovery(revisit, true));
+        setScanStage('done');
+        return;
+      }
+
+      const generationOptions: GenerationOptions = {
+          imageSize,
+          aspectRatio: aspectSetting === 'auto' ? nearestAspectRatio(width, height) : aspectSetting,
+          variantCount,
+          seed: seed.trim() !== '' && isValidSeed(Number(seed)) ? Number(seed) : undefined,
+      };
+
+      // No network: keep the frame for later instead of failing
+      if (provider.requiresNetwork && !navigator.onLine) {
+        await scanQueue.enqueue({
+            id: scanId,
             image: imageBase64,
-            entity,
-            generatedVisualizations: visualizationUrls.length > 0 ? visualizationUrls : undefined,
-            timestamp: Date.now()
+            source,
+            location: location ?? undefined,
+            providerId,
+            prompt: customPrompt,
+            negativePrompt,
+            generation: generationOptions,
+            locale,
+            world: selectWorld(worldHistory, worldSettings),
+            timestamp: Date.now(),
         });
-        setScanStage('done');
-        setShowDetails(true);
-      } catch (err) {
-        console.error(err);
-        setError("Error al comunicar con la dimensión oculta.");
+        if (!isCurrent()) return;
+        abortRef.current = null;
+        setStillImage(null);
+        setQueueNotice(t.offline.queued);
         setScanStage('idle');
+        return;
       }
+
+      // Step 1: Detect/Create the text description, streamed as it is written
+      const entity = await provider.scanForInvisibleEntity(imageBase64, customPrompt, {
+          signal,
+          locale,
+          world: selectWorld(worldHistory, worldSettings),
+          timeoutMs: DEFAULT_TIMEOUTS.scan,
+          onPartial: (partial) => {
+              if (isCurrent()) setPartialEntity(partial);
+          },
+      });
+      if (!isCurrent()) return;
+
+      // Show the entity right away; images fill in tile by tile
+      const baseResult: ScanResult = {
+          id: scanId,
+          image: imageBase64,
+          entity,
+          aspectRatio: generationOptions.aspectRatio,
+          source,
+          location: location ?? undefined,
+          timestamp: Date.now()
+      };
+      setResult(baseResult);
+      setWorldHistory((prev) => [...prev, entity]);
+      setNewAchievements(recordDiscovery(baseResult));
+      setPartialEntity(null);
+      setTiles(Array.from({ length: variantCount }, () => ({ status: 'loading' })));
+      setResultView(entity.anchor && source === 'camera' ? 'ar' : 'grid');
+      setOverlayIndex(0);
+      setShowDetails(true);
+      setScanStage('visualizing');
+      
+      // Step 2: Generate the visual representations and the in-scene composite.
+      // Every outcome is kept so failed and censored tiles survive into the saved result.
+      const statuses: TileStatus[] = Array.from({ length: variantCount }, () => 'failed');
+      const [visualizationUrls, compositeImage] = await Promise.all([
+          provider.generateEntityVisualization(entity, generationOptions, negativePrompt, {
+              signal,
+              locale,
+              timeoutMs: DEFAULT_TIMEOUTS.visualize,
+              onImage: (index, url, blocked) => {
+                  const status = url ? 'done' : blocked ? 'censored' : 'failed';
+                  statuses[index] = status;
+                  if (!isCurrent()) return;
+                  setTiles((prev) => prev.map((tile, i) => (i === index ? { status, url: url ?? undefined } : tile)));
+              },
+          }).catch((err): string[] => {
+              // The entity is already on screen: a spent cap or an oversized frame only costs the images
+              const capped = err instanceof DailyCapReachedError || (err instanceof RequestError && err.status === 413);
+              if (!capped) throw err;
+              if (isCurrent()) setEditError(describeScanError(err, t));
+              return [];
+          }),
+          provider.compositeEntityIntoScene(entity, imageBase64, negativePrompt, {
+              signal,
+              locale,
+              timeoutMs: DEFAULT_TIMEOUTS.composite,
+          }).then((image) => {
+              if (isCurrent() && image) setResult((prev) => (prev ? { ...prev, compositeImage: image } : prev));
+              return image;
+          }),
+      ]);
+      if (!isCurrent()) return;
+      abortRef.current = null;
+
+      const scanResult: ScanResult = {
+          ...baseResult,
+          generatedVisualizations: visualizationUrls.length > 0 ? visualizationUrls : undefined,
+          tileStatuses: statuses,
+          compositeImage: compositeImage ?? undefined,
+      };
+      setResult(scanResult);
+      setScanStage('done');
+    } catch (err) {
+      // Cancelled by the user: handleReset already returned to idle
+      if (!isCurrent() || isAbortError(err)) return;
+      console.error(err);
+      abortRef.current?.abort(); // a blocked entity also stops its other pending requests
+      abortRef.current = null;
+      setPartialEntity(null);
+      if (err instanceof ContentBlockedError) {
+        setResult(null);
+        setTiles([]);
+        setStillImage(null);
+        setCensored(err.source);
+      } else {
+        setError(describeScanError(err, t));
+      }
+      setScanStage('idle');
+    }
+  }, [customPrompt, negativePrompt, imageSize, aspectSetting, variantCount, seed, providerId, locationEnabled, worldHistory, worldSettings, scanQueue.enqueue, locale, t]);
+
+  const handleScan = useCallback(async () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    if (isDailyCapReached(dailyCap)) {
+      setError(t.usage.capReached);
+      return;
     }
-  }, [customPrompt, negativePrompt, imageSize]);
 
+    setStillImage(null);
+    try {
+      runScan(await preprocessImage(video, video.videoWidth, video.videoHeight, preprocessSettings), 'camera');
+    } catch (err) {
+      console.error(err);
+      setError(t.scanner.genericError);
+    }
+  }, [runScan, preprocessSettings, dailyCap, t]);
+
+  // Picker, drop and paste all land here; the photo replaces the feed while it is scanned
+  const handleUpload = useCallback(async (file: File) => {
+    if (isDailyCapReached(dailyCap)) {
+      setError(t.usage.capReached);
+      return;
+    }
+    try {
+      const image = await loadImageFile(file, preprocessSettings);
+      setStillImage(image.dataUrl);
+      runScan(image, 'upload');
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof ImageInputError ? t.upload[err.reason] : t.upload.unreadable);
+    }
+  }, [runScan, preprocessSettings, dailyCap, t]);
+
+  // Live mode only samples while the scanner is idle and unobstructed
+  const liveScan = useLiveScan(
+    videoRef,
+    liveScanSettings,
+    scanStage !== 'idle' || !!result || showSettings || showPin || !!feedError,
+    handleScan
+  );
+
+  const acceptsImages = !result && scanStage === 'idle' && !showSettings && !showPin;
+
+  useEffect(() => {
+    if (!acceptsImages) return;
+    const handlePaste = (e: ClipboardEvent) => {
+      const file = pickImageFile(e.clipboardData?.files);
+      if (!file) return;
+      e.preventDefault();
+      handleUpload(file);
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [acceptsImages, handleUpload]);
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!acceptsImages || !e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDragging(false);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragging(false);
+    const file = pickImageFile(e.dataTransfer.files);
+    if (acceptsImages && file) handleUpload(file);
+  };
+
+  const applyPreset = (preset: CalibrationPreset) => {
+    setCustomPrompt(preset.customPrompt);
+    setNegativePrompt(preset.negativePrompt);
+    setImageSize(preset.imageSize);
+  };
+
+  const handleSelectPreset = (id: string) => applyPreset(selectPreset(id));
+
+  const calibrationModified =
+    customPrompt !== activePreset.customPrompt ||
+    negativePrompt !== activePreset.negativePrompt ||
+    imageSize !== activePreset.imageSize;
+
+  const handleSaveCalibration = () => {
+    if (calibrationModified) {
+      if (activePreset.builtIn) {
+        const name = window.prompt(t.settings.builtInCopyPrompt, t.presets.copyOf(activePreset.name));
+        if (!name?.trim()) return;
+        savePreset({ customPrompt, negativePrompt, imageSize }, name.trim());
+      } else {
+        savePreset({ customPrompt, negativePrompt, imageSize });
+      }
+    }
+    setShowSettings(false);
+  };
+
+  // Images available so far: final list once done, arrived tiles while generating
+  const visualizations = result?.generatedVisualizations
+    ?? tiles.filter((tile) => tile.url).map((tile) => tile.url!);
+
+  // Uploaded photos have no live feed to anchor the entity on
+  const canShowAr = !!result?.entity?.anchor && result.source !== 'upload';
+  const showArOverlay = canShowAr && resultView === 'ar';
+  const relatedChain = result?.entity ? relationChain(result.entity, worldHistory) : [];
+
+  const handleTileEdit = async (index: number, action: Exclude<VisualizationAction, 'original'>, instruction?: string) => {
+    const source = result?.generatedVisualizations?.[index];
+    if (!result?.entity || !source) return;
+
+    const scanId = result.id;
+    const isCurrent = () => activeScanRef.current === scanId;
+    if (!abortRef.current) abortRef.current = new AbortController();
+    const count = action === 'variation' ? VARIATION_COUNT : 1;
+
+    setEditError(null);
+    const missing: TileStatus[] = [];
+    if (action === 'variation') {
+      setPendingVariations((n) => n + count);
+      setEditingIndex(null); // the new tiles appear in the grid
+    } else {
+      setBusyTiles((prev) => [...prev, index]);
+    }
+
+    try {
+      // Regenerate starts over from the entity; variations and refinements build on this image
+      const reference = action === 'regenerate'
+        ? undefined
+        : { image: (await loadImageDataUrl(source, { ...preprocessSettings, blurFaces: false })).dataUrl, instruction };
+      if (!isCurrent()) return;
+      const urls = await getProvider(providerId).generateEntityVisualization(
+        result.entity,
+        { imageSize, aspectRatio: result.aspectRatio ?? cameraAspectRatio(), variantCount: count, seed: randomSeed() },
+        negativePrompt,
+        {
+          signal: abortRef.current.signal,
+          locale,
+          timeoutMs: DEFAULT_TIMEOUTS.visualize,
+          reference,
+          onImage: (_index, url, blocked) => {
+            if (!url) missing.push(blocked ? 'censored' : 'failed');
+          },
+        }
+      );
+      if (!isCurrent()) return;
+      if (urls.length === 0) setEditError(missing.includes('censored') ? t.safety.imageCensored : t.scanner.noImages);
+      // Variations that did not arrive still take their place in the grid; a failed edit keeps the tile as it was
+      if (action === 'variation') {
+        setResult((prev) => (prev ? appendTiles(prev, urls.map((url) => createVersion(url, 'variation')), missing) : prev));
+      } else if (urls.length > 0) {
+        setResult((prev) => (prev ? addVersion(prev, index, createVersion(urls[0], action, instruction)) : prev));
+      }
+    } catch (err) {
+      if (!isCurrent() || isAbortError(err)) return;
+      console.error(err);
+      setEditError(describeScanError(err, t));
+    } finally {
+      if (isCurrent()) {
+        if (action === 'variation') setPendingVariations((n) => n - count);
+        else setBusyTiles((prev) => prev.filter((i) => i !== index));
+      }
+    }
+  };
+
+  const handleAsk = async (question: string) => {
+    if (!result?.entity) return;
+
+    const scanId = result.id;
+    const isCurrent = () => activeScanRef.current === scanId;
+    if (!abortRef.current) abortRef.current = new AbortController();
+    const transcript = result.interrogation ?? [];
+    const asked: InterrogationMessage = { role: 'user', text: question, timestamp: Date.now() };
+
+    setInterrogationError(null);
+    setPendingQuestion(question);
+    try {
+      const answer = await getProvider(providerId).interrogateEntity(result.entity, result.image, transcript, question, {
+        signal: abortRef.current.signal,
+        locale,
+        timeoutMs: DEFAULT_TIMEOUTS.interrogate,
+      });
+      if (!isCurrent()) return;
+      const answered: InterrogationMessage = { role: 'entity', text: answer, timestamp: Date.now() };
+      // Question and answer are stored together so the transcript always alternates
+      setResult((prev) => (prev ? { ...prev, interrogation: [...(prev.interrogation ?? []), asked, answered] } : prev));
+    } catch (err) {
+      if (!isCurrent() || isAbortError(err)) return;
+      console.error(err);
+      setInterrogationError(
+        err instanceof ContentBlockedError ? t.safety.answerCensored
+        : err instanceof DailyCapReachedError ? t.usage.capReached
+        : err instanceof RequestError && err.status === 429 ? t.scanner.rateLimited
+        : t.interrogation.error
+      );
+    } finally {
+      if (isCurrent()) setPendingQuestion(null);
+    }
+  };
+
+  // Tiles in the grid: streamed slots while generating, then the saved ones (editable images, failed and censored slots)
+  const gridTiles: VisualizationTile[] = scanStage === 'done' && result
+    ? [
+        ...getTileSlots(result).map(({ status, imageIndex }): VisualizationTile => ({
+          status,
+          url: imageIndex !== undefined ? result.generatedVisualizations?.[imageIndex] : undefined,
+          imageIndex,
+        })),
+        ...Array.from({ length: pendingVariations }, (): VisualizationTile => ({ status: 'loading' })),
+      ]
+    : tiles;
+
+  // Also serves as "Cancelar": the scan in flight is aborted and its late results ignored
   const handleReset = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    activeScanRef.current = null;
+    setEditingIndex(null);
+    setBusyTiles([]);
+    setPendingVariations(0);
+    setEditError(null);
+    narration.stop();
+    setRevisitNotice(null);
+    setShowInterrogation(false);
+    setPendingQuestion(null);
+    setInterrogationError(null);
     setResult(null);
+    setTiles([]);
+    setPartialEntity(null);
+    setShowShare(false);
     setShowDetails(false);
     setError(null);
+    setCensored(null);
+    setStillImage(null);
     setScanStage('idle');
   };
 
-  // Rarity Color Helper
-  const getRarityColor = (rarity: string) => {
-    switch (rarity) {
-      case 'Común': return 'text-gray-400 border-gray-400 from-gray-500/20 to-gray-900/40';
-      case 'Raro': return 'text-cyan-400 border-cyan-400 from-cyan-500/20 to-cyan-900/40';
-      case 'Legendario': return 'text-amber-400 border-amber-400 from-amber-500/20 to-amber-900/40';
-      case 'Artefacto': return 'text-purple-400 border-purple-400 from-purple-500/20 to-purple-900/40';
-      default: return 'text-white border-white from-white/20 to-black/40';
-    }
+  // Kiosk mode: a finished result (or a censored anomaly) clears itself for the next visitor
+  useIdleTimeout(
+    kiosk.enabled && !showSettings && ((!!result && scanStage === 'done') || !!censored) ? kiosk.resultSeconds * 1000 : null,
+    handleReset,
+  );
+
+  // Tap on the live feed to focus and meter exposure on that point
+  const handleFeedTap = (e: React.MouseEvent<HTMLDivElement>) => {
+    const video = videoRef.current;
+    if (!video || !camera.capabilities.focus || !acceptsImages || stillImage || !video.videoWidth) return;
+    const bounds = e.currentTarget.getBoundingClientRect();
+    const x = e.clientX - bounds.left;
+    const y = e.clientY - bounds.top;
+    const point = mapViewToFrame(x, y, video.videoWidth, video.videoHeight, bounds.width, bounds.height);
+    camera.focusAt(point.x, point.y);
+    setFocusRing({ x, y, id: Date.now() });
   };
 
   return (
-    <div className="relative h-screen w-full bg-black overflow-hidden font-display">
-      {/* Hidden Canvas for capture */}
-      <canvas ref={canvasRef} className="hidden" />
+    <div
+      className="relative h-screen w-full bg-black overflow-hidden font-display"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*"
+        className="hidden"
+        onChange={(e) => {
+          const file = pickImageFile(e.target.files);
+          e.target.value = '';
+          if (file) handleUpload(file);
+        }}
+      />
 
       {/* Camera Feed */}
-      <div className="absolute inset-0 z-0 bg-runes">
-        {!error ? (
-          <video
-            ref={videoRef}
-            autoPlay
-            playsInline
-            muted
-            className={`w-full h-full object-cover transition-all duration-1000 ${result ? 'grayscale brightness-50 blur-md' : ''}`}
+      <div className="absolute inset-0 z-0 bg-runes" onClick={handleFeedTap}>
+        {/* Always mounted so the stream stays attached across errors */}
+        <video
+          ref={videoRef}
+          autoPlay
+          playsInline
+          muted
+          className={`w-full h-full object-cover transition-all duration-1000 ${feedError || stillImage ? 'invisible' : ''} ${result && !showArOverlay ? 'grayscale brightness-50 blur-md' : ''}`}
+        />
+        {stillImage && !feedError && (
+          <img
+            src={stillImage}
+            alt={t.entity.snapshot}
+            className={`absolute inset-0 w-full h-full object-cover transition-all duration-1000 ${result ? 'grayscale brightness-50 blur-md' : ''}`}
           />
-        ) : (
-          <div className="flex items-center justify-center h-full text-white/50 p-6 text-center">
-            {error}
+        )}
+        {feedError && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 text-white/50 p-6 text-center">
+            {feedError}
+            {camera.failed && <span className="text-xs text-white/40">{t.upload.cameraFallback}</span>}
           </div>
         )}
+        {focusRing && (
+          <div
+            key={focusRing.id}
+            className="absolute w-16 h-16 -translate-x-1/2 -translate-y-1/2 border-2 border-cyan-400 rounded-full pointer-events-none animate-[fade-in_0.2s_ease-out]"
+            style={{ left: focusRing.x, top: focusRing.y }}
+          />
+        )}
         {/* Scanlines Overlay */}
         <div className="scanlines opacity-30"></div>
       </div>
 
       {/* Overlay UI - Scanner HUD */}
-      {!result && !error && !showSettings && (
+      {!result && !feedError && !showSettings && (
         <div className="absolute inset-0 z-10 pointer-events-none">
             {/* Corner Brackets */}
             <div className="corner-brackets"></div>
@@ -167,9 +716,35 @@ export const ARView: React.FC<ARViewProps> = ({ onBack }) => {
                 <div className="absolute bottom-24 left-6 text-[10px] text-cyan-500/40 font-mono space-y-1">
                    <div>ISO: 800</div>
                    <div>SPEC: ULTRA</div>
-                   <div>GEMINI: ACTIVE</div>
-                   <div>RES: {imageSize}</div>
+                   <div>{providerId.toUpperCase()}: ACTIVE</div>
+                   <div>RES: {imageSize} · {aspectSetting === 'auto' ? cameraAspectRatio() : aspectSetting} · x{variantCount}</div>
+                   <div>
+                       TX: {lastPayload
+                           ? `${formatBytes(lastPayload.bytes)} · ${lastPayload.width}×${lastPayload.height} · ${lastPayload.format.toUpperCase()} Q${Math.round(lastPayload.quality * 100)}`
+                           : `≤ ${formatBytes(preprocessSettings.byteBudget)} · ${preprocessSettings.format.toUpperCase()}`}
+                       {lastPayload && lastPayload.facesBlurred > 0 && ` · BLUR ${lastPayload.facesBlurred}`}
+                   </div>
+                   {!scanQueue.online && <div className="text-amber-300">OFFLINE</div>}
+                   {scanQueue.pending > 0 && (
+                       <div className="text-amber-300">PENDING: {scanQueue.pending}{scanQueue.syncing && ' · SYNC'}</div>
+                   )}
+                   {worldSettings.enabled && (
+                       <div>WORLD: {selectWorld(worldHistory, worldSettings).length}/{worldSettings.size}</div>
+                   )}
+                   {locationEnabled && (
+                       <div>GEO: ON{heading !== null && ` · ${heading}°`}</div>
+                   )}
+                   {liveScan.phase !== 'off' && (
+                       <div>LIVE: {liveScan.scansUsed}/{liveScanSettings.sessionBudget}</div>
+                   )}
                 </div>
+
+                {/* Live mode settle progress */}
+                {liveScan.phase === 'settling' && (
+                    <div className="absolute top-1/2 left-1/2 -translate-x-1/2 translate-y-36 w-40 h-1 bg-cyan-500/20 rounded-full overflow-hidden">
+                        <div className="h-full bg-cyan-400 transition-all duration-300" style={{ width: `${liveScan.settleProgress * 100}%` }} />
+                    </div>
+                )}
             </div>
 
             {/* Scanning Scanline */}
@@ -191,25 +766,43 @@ export const ARView: React.FC<ARViewProps> = ({ onBack }) => {
         {/* Status Indicator */}
         <div className="px-4 py-2 bg-black/60 backdrop-blur-md rounded-full text-xs font-mono text-cyan-400 border border-cyan-500/30 flex items-center gap-2 shadow-[0_0_15px_rgba(6,182,212,0.3)]">
             <div className={`w-2 h-2 rounded-full ${scanStage === 'idle' ? 'bg-green-500 animate-pulse' : 'bg-cyan-400 animate-ping'}`} />
-            {scanStage === 'idle' && 'BUSCANDO ANOMALÍAS'}
-            {scanStage === 'analyzing' && 'INTERPRETANDO DATOS...'}
-            {scanStage === 'visualizing' && 'GENERANDO IMÁGENES (x4)...'}
+            {scanStage === 'idle' && (
+                <>
+                    {(liveScan.phase === 'off' || liveScan.phase === 'watching') && t.scanner.statusSearching}
+                    {liveScan.phase === 'settling' && t.scanner.statusSettling}
+                    {liveScan.phase === 'cooldown' && t.scanner.statusCooldown}
+                    {liveScan.phase === 'exhausted' && t.scanner.statusExhausted}
+                </>
+            )}
+            {scanStage === 'analyzing' && t.scanner.statusAnalyzing}
+            {scanStage === 'visualizing' && t.scanner.statusVisualizing(tiles.filter((tile) => tile.status !== 'loading').length, tiles.length)}
         </div>
 
         <button 
-            onClick={() => setShowSettings(true)}
+            onClick={() => (kiosk.enabled ? setShowPin(true) : setShowSettings(true))}
             className="p-3 bg-black/40 backdrop-blur-md rounded-full text-white hover:bg-white/10 transition-colors border border-white/10"
         >
             <Settings size={20} />
         </button>
       </div>
 
+      {showPin && (
+        <PinPrompt
+            pin={kiosk.pin}
+            onUnlock={() => {
+                setShowPin(false);
+                setShowSettings(true);
+            }}
+            onCancel={() => setShowPin(false)}
+        />
+      )}
+
       {/* Settings Modal */}
       {showSettings && (
         <div className="absolute inset-0 z-50 bg-black/95 backdrop-blur-xl p-6 flex flex-col animate-[fade-in_0.2s_ease-out]">
             <div className="flex justify-between items-center mb-6">
                 <h2 className="text-xl font-bold text-white flex items-center gap-2">
-                    <Settings className="text-cyan-400" size={20}/> Calibración de Lente
+                    <Settings className="text-cyan-400" size={20}/> {t.settings.title}
                 </h2>
                 <button onClick={() => setShowSettings(false)} className="text-white/50 hover:text-white">
                     <X size={24} />
@@ -217,33 +810,139 @@ export const ARView: React.FC<ARViewProps> = ({ onBack }) => {
             </div>
             
             <div className="flex-1 overflow-y-auto space-y-6">
+                {/* Preset Section */}
+                <PresetSection
+                    presets={presets}
+                    activePreset={activePreset}
+                    modified={calibrationModified}
+                    onSelect={handleSelectPreset}
+                    onSaveAs={(name) => savePreset({ customPrompt, negativePrompt, imageSize }, name)}
+                    onDelete={(id) => {
+                        deletePreset(id);
+                        applyPreset(presets[0]);
+                    }}
+                    onImport={importFromFile}
+                    onExport={exportUserPresets}
+                />
+
+                {/* Provider Section */}
+                <div>
+                  <label className="block text-sm text-cyan-400 mb-2 font-mono uppercase tracking-widest">{t.settings.provider}</label>
+                  <div className="grid grid-cols-2 gap-2">
+                      {listProviders().map((provider) => (
+                          <button
+                              key={provider.id}
+                              onClick={() => setProviderId(provider.id)}
+                              className={`py-3 px-3 rounded-lg text-sm font-bold transition-all border ${
+                                  providerId === provider.id
+                                  ? 'bg-cyan-500/30 border-cyan-400 text-cyan-300 shadow-[0_0_15px_rgba(6,182,212,0.3)]'
+                                  : 'bg-zinc-800/50 border-white/5 text-white/40 hover:bg-white/10 hover:text-white'
+                              }`}
+                          >
+                              {t.providers[provider.id]}
+                          </button>
+                      ))}
+                  </div>
+                </div>
+
+                {/* Camera Section */}
+                {camera.devices.length > 1 && (
+                <div>
+                  <label className="block text-sm text-cyan-400 mb-2 font-mono uppercase tracking-widest">{t.camera.title}</label>
+                  <div className="grid grid-cols-1 gap-2">
+                      {camera.devices.map((device, index) => (
+                          <button
+                              key={device.deviceId}
+                              onClick={() => camera.selectDevice(device.deviceId)}
+                              className={`py-3 px-3 rounded-lg text-sm font-bold text-left truncate transition-all border ${
+                                  camera.deviceId === device.deviceId
+                                  ? 'bg-cyan-500/30 border-cyan-400 text-cyan-300 shadow-[0_0_15px_rgba(6,182,212,0.3)]'
+                                  : 'bg-zinc-800/50 border-white/5 text-white/40 hover:bg-white/10 hover:text-white'
+                              }`}
+                          >
+                              {device.label || t.camera.device(index + 1)}
+                          </button>
+                      ))}
+                  </div>
+                </div>
+                )}
+
                 {/* Prompt Section */}
                 <div>
-                    <label className="block text-sm text-cyan-400 mb-2 font-mono uppercase tracking-widest">Prompt del Sistema</label>
-                    <p className="text-xs text-white/50 mb-4">Define cómo la IA interpreta la realidad.</p>
+                    <label className="block text-sm text-cyan-400 mb-2 font-mono uppercase tracking-widest">{t.settings.prompt}</label>
+                    <p className="text-xs text-white/50 mb-4">{t.settings.promptHint}</p>
                     <textarea
                         value={customPrompt}
                         onChange={(e) => setCustomPrompt(e.target.value)}
                         className="w-full h-24 bg-zinc-900/50 border border-white/20 rounded-lg p-4 text-white text-sm font-mono focus:outline-none focus:border-cyan-500 transition-colors resize-none"
-                        placeholder="Escribe tus instrucciones aquí..."
+                        placeholder={t.settings.promptPlaceholder}
                     />
                 </div>
 
                  {/* Negative Prompt Section */}
                  <div>
-                    <label className="block text-sm text-red-400 mb-2 font-mono uppercase tracking-widest">Prompt Negativo</label>
-                    <p className="text-xs text-white/50 mb-4">Elementos a EXCLUIR de la alucinación.</p>
+                    <label className="block text-sm text-red-400 mb-2 font-mono uppercase tracking-widest">{t.settings.negativePrompt}</label>
+                    <p className="text-xs text-white/50 mb-4">{t.settings.negativePromptHint}</p>
                     <textarea
                         value={negativePrompt}
                         onChange={(e) => setNegativePrompt(e.target.value)}
                         className="w-full h-20 bg-zinc-900/50 border border-red-900/50 rounded-lg p-4 text-white text-sm font-mono focus:outline-none focus:border-red-500 transition-colors resize-none"
-                        placeholder="Ej: texto, borroso, gente..."
+                        placeholder={t.settings.negativePromptPlaceholder}
                     />
                 </div>
 
+                {/* Preprocessing Section */}
+                <PreprocessSection settings={preprocessSettings} onChange={setPreprocessSettings} />
+
+                {/* Kiosk Section */}
+                <KioskSection settings={kiosk} onChange={onKioskChange} />
+
+                {/* Usage Section */}
+                <UsageSection
+                    dailyCap={dailyCap}
+                    onCapChange={(cap) => {
+                        setDailyCap(cap);
+                        saveDailyCap(cap);
+                        if (error === t.usage.capReached) setError(null);
+                    }}
+                />
+
+                {/* Safety Section */}
+                <SafetySection />
+
+                {/* Coherent World Section */}
+                <WorldSection
+                    settings={worldSettings}
+                    remembered={worldHistory.length}
+                    onChange={setWorldSettings}
+                    onForget={() => setWorldHistory([])}
+                />
+
+                {/* Location Section */}
+                <div>
+                  <label className="block text-sm text-cyan-400 mb-2 font-mono uppercase tracking-widest">{t.location.title}</label>
+                  <p className="text-xs text-white/50 mb-4">{t.location.hint}</p>
+                  <button
+                      onClick={toggleLocation}
+                      className={`w-full py-3 px-3 rounded-lg text-sm font-bold transition-all border flex items-center justify-center gap-2 ${
+                          locationEnabled
+                          ? 'bg-cyan-500/30 border-cyan-400 text-cyan-300 shadow-[0_0_15px_rgba(6,182,212,0.3)]'
+                          : 'bg-zinc-800/50 border-white/5 text-white/40 hover:bg-white/10 hover:text-white'
+                      }`}
+                  >
+                      <MapPin size={16} /> {locationEnabled ? t.location.enabled : t.location.disabled}
+                  </button>
+                </div>
+
+                {/* Narration Section */}
+                <NarrationSection settings={narrationSettings} narration={narration} onChange={setNarrationSettings} />
+
+                {/* Live Scan Section */}
+                <LiveScanSection settings={liveScanSettings} onChange={setLiveScanSettings} />
+
                 {/* Resolution Section */}
                 <div>
-                  <label className="block text-sm text-cyan-400 mb-2 font-mono uppercase tracking-widest">Resolución (Gemini 3 Pro)</label>
+                  <label className="block text-sm text-cyan-400 mb-2 font-mono uppercase tracking-widest">{t.settings.resolution}</label>
                   <div className="grid grid-cols-3 gap-2">
                       {(['1K', '2K', '4K'] as const).map((size) => (
                           <button
@@ -260,39 +959,149 @@ export const ARView: React.FC<ARViewProps> = ({ onBack }) => {
                       ))}
                   </div>
                 </div>
+
+                {/* Aspect Ratio Section */}
+                <div>
+                  <label className="block text-sm text-cyan-400 mb-2 font-mono uppercase tracking-widest">{t.settings.aspectRatio}</label>
+                  <div className="grid grid-cols-3 gap-2">
+                      {(['auto', ...ASPECT_RATIOS] as const).map((ratio) => (
+                          <button
+                              key={ratio}
+                              onClick={() => setAspectSetting(ratio)}
+                              className={`py-3 px-3 rounded-lg text-sm font-bold transition-all border ${
+                                  aspectSetting === ratio
+                                  ? 'bg-cyan-500/30 border-cyan-400 text-cyan-300 shadow-[0_0_15px_rgba(6,182,212,0.3)]'
+                                  : 'bg-zinc-800/50 border-white/5 text-white/40 hover:bg-white/10 hover:text-white'
+                              }`}
+                          >
+                              {ratio === 'auto' ? t.settings.cameraAspect(cameraAspectRatio()) : ratio}
+                          </button>
+                      ))}
+                  </div>
+                </div>
+
+                {/* Variants & Seed Section */}
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm text-cyan-400 mb-2 font-mono uppercase tracking-widest">{t.settings.variants}</label>
+                    <div className="grid grid-cols-4 gap-1">
+                        {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map((count) => (
+                            <button
+                                key={count}
+                                onClick={() => setVariantCount(count)}
+                                className={`py-3 rounded-lg text-sm font-bold transition-all border ${
+                                    variantCount === count
+                                    ? 'bg-cyan-500/30 border-cyan-400 text-cyan-300'
+                                    : 'bg-zinc-800/50 border-white/5 text-white/40 hover:bg-white/10 hover:text-white'
+                                }`}
+                            >
+                                {count}
+                            </button>
+                        ))}
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-sm text-cyan-400 mb-2 font-mono uppercase tracking-widest">{t.settings.seed}</label>
+                    <input
+                        type="number"
+                        step={1}
+                        min={0}
+                        max={MAX_SEED}
+                        value={seed}
+                        onChange={(e) => setSeed(e.target.value)}
+                        placeholder={t.settings.seedPlaceholder}
+                        className="w-full bg-zinc-900/50 border border-white/20 rounded-lg p-3 text-white text-sm font-mono focus:outline-none focus:border-cyan-500"
+                    />
+                  </div>
+                </div>
             </div>
 
             <button 
-                onClick={() => setShowSettings(false)}
+                onClick={handleSaveCalibration}
                 className="w-full py-4 bg-cyan-600 hover:bg-cyan-500 text-white font-bold rounded-xl flex items-center justify-center gap-2 mt-4 transition-colors shadow-[0_0_20px_rgba(8,145,178,0.4)]"
             >
-                <Save size={18} /> Guardar Calibración
+                <Save size={18} /> {t.settings.save}
             </button>
         </div>
       )}
 
       {/* Result Card Overlay */}
       {result && result.entity && (
-          <div className={`absolute inset-0 z-20 flex flex-col transition-opacity duration-500 bg-black/40 ${showDetails ? 'opacity-100' : 'opacity-0'}`}>
-              
-              {/* Generated Visualization Centerpiece - GRID LAYOUT */}
-              <div className="flex-1 p-4 flex items-center justify-center overflow-y-auto">
-                  <div className={`grid gap-4 w-full max-w-lg ${
-                      result.generatedVisualizations && result.generatedVisualizations.length > 1 
-                      ? 'grid-cols-2' 
-                      : 'grid-cols-1'
-                  }`}>
-                      {result.generatedVisualizations ? (
-                          result.generatedVisualizations.map((imgUrl, index) => (
-                             <div key={index} className="relative aspect-square">
-                                 <div className={`absolute inset-0 bg-gradient-to-tr ${getRarityColor(result.entity!.rarity).split(' ')[2]} rounded-2xl blur-lg opacity-40`}></div>
-                                 <img 
-                                     src={imgUrl} 
-                                     alt={`Entidad Invisible ${index + 1}`} 
-                                     className="relative w-full h-full object-cover rounded-2xl border border-white/20 shadow-xl z-10"
-                                 />
+          <div className={`absolute inset-0 z-20 flex flex-col transition-opacity duration-500 ${showArOverlay ? '' : 'bg-black/40'} ${showDetails ? 'opacity-100' : 'opacity-0'}`}>
+
+              {showArOverlay ? (
+              <div className="relative flex-1">
+                  {/* Corner Brackets */}
+                  <div className="corner-brackets"></div>
+                  <AnchorOverlay
+                      videoRef={videoRef}
+                      anchor={result.entity.anchor!}
+                      imageUrl={visualizations[overlayIndex] ?? visualizations[0]}
+                      title={result.entity.title}
+                      colorClass={getRarityColor(result.entity.rarity).split(' ').slice(0, 2).join(' ')}
+                  />
+              </div>
+              ) : (
+              /* Generated Visualization Centerpiece - GRID LAYOUT */
+              <div className="flex-1 p-4 flex flex-col items-center justify-center gap-4 overflow-y-auto">
+                  {/* Entity anchored in the real snapshot */}
+                  {result.compositeImage && (
+                      <BeforeAfterSlider
+                          before={result.image}
+                          after={result.compositeImage}
+                          className="w-full max-w-lg aspect-video shrink-0 rounded-2xl border border-white/20 shadow-xl"
+                      />
+                  )}
+
+                  <div className={`grid gap-4 w-full max-w-lg ${gridTiles.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                      {gridTiles.length > 0 ? (
+                          gridTiles.map((tile, index) => (
+                             <div key={index} className="relative" style={{ aspectRatio: aspectRatioValue(result.aspectRatio ?? '1:1') }}>
+                                 {tile.status === 'done' && (
+                                     <button
+                                         onClick={() => tile.imageIndex !== undefined && setEditingIndex(tile.imageIndex)}
+                                         disabled={scanStage !== 'done'}
+                                         className="relative block w-full h-full group"
+                                     >
+                                         <div className={`absolute inset-0 bg-gradient-to-tr ${getRarityColor(result.entity!.rarity).split(' ')[2]} rounded-2xl blur-lg opacity-40`}></div>
+                                         <img 
+                                             src={tile.url} 
+                                             alt={t.entity.visualization(index + 1)} 
+                                             className="relative w-full h-full object-cover rounded-2xl border border-white/20 shadow-xl z-10 animate-[fade-in_0.5s_ease-out]"
+                                         />
+                                         {tile.imageIndex !== undefined && busyTiles.includes(tile.imageIndex) ? (
+                                             <div className="absolute inset-0 z-20 flex items-center justify-center bg-black/50 rounded-2xl">
+                                                 <Loader2 className="animate-spin text-cyan-400" size={32} />
+                                             </div>
+                                         ) : scanStage === 'done' && (
+                                             <Wand2 className="absolute top-2 right-2 z-20 text-white/70 opacity-0 group-hover:opacity-100 transition-opacity" size={16} />
+                                         )}
+                                     </button>
+                                 )}
+                                 {tile.status === 'loading' && (
+                                     <div className="w-full h-full flex items-center justify-center bg-black/20 backdrop-blur rounded-2xl border border-white/10">
+                                         <Loader2 className="animate-spin text-white/30" size={32} />
+                                     </div>
+                                 )}
+                                 {tile.status === 'censored' && (
+                                     <div className="w-full h-full flex flex-col items-center justify-center gap-2 bg-zinc-900/80 backdrop-blur rounded-2xl border border-amber-500/30 text-amber-300/70 text-[10px] font-mono uppercase tracking-widest">
+                                         <ShieldAlert size={24} />
+                                         {t.safety.censoredTile}
+                                     </div>
+                                 )}
+                                 {tile.status === 'failed' && (
+                                     <div className="w-full h-full flex flex-col items-center justify-center gap-2 bg-black/40 backdrop-blur rounded-2xl border border-red-500/20 text-red-300/60 text-[10px] font-mono uppercase tracking-widest">
+                                         <ImageOff size={24} />
+                                         {t.scanner.signalLost}
+                                     </div>
+                                 )}
                              </div>
                           ))
+                      ) : scanStage === 'done' ? (
+                          <div className="col-span-2 aspect-square flex flex-col items-center justify-center gap-2 bg-black/40 backdrop-blur rounded-2xl border border-red-500/20 text-red-300/60 text-[10px] font-mono uppercase tracking-widest">
+                              <ImageOff size={32} />
+                              {t.scanner.signalLost}
+                          </div>
                       ) : (
                           <div className="col-span-2 aspect-square flex items-center justify-center bg-black/20 backdrop-blur rounded-2xl border border-white/10">
                               <Loader2 className="animate-spin text-white/30" size={48} />
@@ -300,6 +1109,7 @@ export const ARView: React.FC<ARViewProps> = ({ onBack }) => {
                       )}
                   </div>
               </div>
+              )}
 
               {/* Bottom Sheet */}
               <div className="bg-zinc-900/95 backdrop-blur-xl border-t border-white/10 rounded-t-3xl p-6 shadow-2xl pointer-events-auto shrink-0 z-30">
@@ -308,24 +1118,132 @@ export const ARView: React.FC<ARViewProps> = ({ onBack }) => {
                   <div className="flex justify-between items-start mb-2">
                       <div>
                           <span className={`inline-block px-2 py-1 mb-2 text-[10px] uppercase tracking-widest border rounded bg-black/50 ${getRarityColor(result.entity.rarity).split(' ').slice(0, 2).join(' ')}`}>
-                              {result.entity.rarity}
+                              {t.rarity[result.entity.rarity]}
                           </span>
                           <h2 className="text-xl font-bold text-white mb-1 leading-tight">{result.entity.title}</h2>
                       </div>
+                      {canShowAr && (
+                          <button
+                              onClick={() => setResultView(resultView === 'ar' ? 'grid' : 'ar')}
+                              className="px-3 py-1 text-[10px] font-mono uppercase tracking-widest border border-cyan-500/40 text-cyan-300 rounded hover:bg-cyan-500/10 transition-colors"
+                          >
+                              {resultView === 'ar' ? t.scanner.gridView : t.scanner.arView}
+                          </button>
+                      )}
                   </div>
 
+                  {/* Visualization picker for the AR overlay */}
+                  {showArOverlay && visualizations.length > 1 && (
+                      <div className="flex gap-2 mb-3">
+                          {visualizations.map((imgUrl, index) => (
+                              <button
+                                  key={index}
+                                  onClick={() => setOverlayIndex(index)}
+                                  className={`w-12 h-12 rounded-lg overflow-hidden border-2 transition-colors ${overlayIndex === index ? 'border-cyan-400' : 'border-white/10 opacity-60 hover:opacity-100'}`}
+                              >
+                                  <img src={imgUrl} alt={t.entity.visualization(index + 1)} className="w-full h-full object-cover" />
+                              </button>
+                          ))}
+                      </div>
+                  )}
+
+                  {revisitNotice && (
+                      <p className="text-xs text-cyan-300 font-mono mb-3 flex items-center gap-2">
+                          <MapPin size={14} className="shrink-0" /> {revisitNotice}
+                      </p>
+                  )}
+
                   <p className="text-sm text-white/80 leading-relaxed font-light mb-4 border-l-2 border-white/20 pl-4 max-h-24 overflow-y-auto">
                       {result.entity.description}
                   </p>
 
+                  {relatedChain.length > 0 && (
+                      <div className="mb-4">
+                          <h3 className="text-cyan-400 font-mono uppercase tracking-widest text-[10px] mb-1 flex items-center gap-1">
+                              <Link2 size={12} /> {t.world.chain}
+                          </h3>
+                          <ol className="space-y-1 text-xs">
+                              {relatedChain.map((link, index) => (
+                                  <li key={link.title} className="flex items-baseline gap-2 min-w-0" style={{ paddingLeft: `${index * 12}px` }}>
+                                      <span className="text-white/40 italic shrink-0">↳ {link.relation}</span>
+                                      <span className={`font-bold truncate ${link.entity ? getRarityColor(link.entity.rarity).split(' ')[0] : 'text-white/70'}`}>
+                                          {link.title}
+                                      </span>
+                                  </li>
+                              ))}
+                          </ol>
+                      </div>
+                  )}
+
+                  <dl className="grid grid-cols-2 gap-3 text-xs mb-4">
+                      <div>
+                          <dt className="text-cyan-400 font-mono uppercase tracking-widest text-[10px]">{t.entity.meaning}</dt>
+                          <dd className="text-white/70 max-h-16 overflow-y-auto">{result.entity.meaning}</dd>
+                      </div>
+                      <div>
+                          <dt className="text-cyan-400 font-mono uppercase tracking-widest text-[10px]">{t.entity.estimatedAge}</dt>
+                          <dd className="text-white/70">{result.entity.estimatedAge}</dd>
+                      </div>
+                  </dl>
+
+                  {editError && editingIndex === null && (
+                      <p className="text-xs text-red-300/80 font-mono mb-3">{editError}</p>
+                  )}
+
                   <div className="flex gap-3">
-                      <button 
-                        onClick={handleReset}
-                        className="flex-1 py-3 bg-white text-black font-bold rounded-xl hover:bg-gray-200 transition-colors flex items-center justify-center gap-2"
+                      {scanStage === 'visualizing' ? (
+                          <button
+                            onClick={handleReset}
+                            className="flex-1 py-3 bg-red-900/40 text-red-200 font-bold rounded-xl hover:bg-red-800/60 transition-colors border border-red-500/30 flex items-center justify-center gap-2"
+                          >
+                              <Ban size={18} /> {t.common.cancel}
+                          </button>
+                      ) : (
+                          <button 
+                            onClick={handleReset}
+                            className="flex-1 py-3 bg-white text-black font-bold rounded-xl hover:bg-gray-200 transition-colors flex items-center justify-center gap-2"
+                          >
+                              <RefreshCw size={18} /> {t.scanner.rescan}
+                          </button>
+                      )}
+                      {narration.supported && (
+                          <button
+                            onClick={() => {
+                                if (narration.phase === 'speaking') narration.pause();
+                                else if (narration.phase === 'paused') narration.resume();
+                                else narration.speak(result.entity!);
+                            }}
+                            title={narration.phase === 'speaking' ? t.narration.pause : narration.phase === 'paused' ? t.narration.resume : t.narration.play}
+                            aria-label={narration.phase === 'speaking' ? t.narration.pause : narration.phase === 'paused' ? t.narration.resume : t.narration.play}
+                            className={`p-3 bg-white/10 rounded-xl hover:bg-white/20 transition-colors border border-white/10 ${narration.phase === 'idle' ? 'text-white' : 'text-cyan-300 border-cyan-500/40'}`}
+                          >
+                              {narration.phase === 'speaking' ? <Pause size={18} /> : narration.phase === 'paused' ? <Play size={18} /> : <Volume2 size={18} />}
+                          </button>
+                      )}
+                      {narration.phase !== 'idle' && (
+                          <button
+                            onClick={narration.stop}
+                            title={t.narration.stop}
+                            aria-label={t.narration.stop}
+                            className="p-3 bg-white/10 text-white rounded-xl hover:bg-white/20 transition-colors border border-white/10"
+                          >
+                              <Square size={18} />
+                          </button>
+                      )}
+                      <button
+                        onClick={() => setShowInterrogation(true)}
+                        disabled={scanStage !== 'done'}
+                        title={t.interrogation.open}
+                        aria-label={t.interrogation.open}
+                        className="p-3 bg-white/10 text-white rounded-xl hover:bg-white/20 transition-colors border border-white/10 disabled:opacity-30"
                       >
-                          <RefreshCw size={18} /> Re-escanear
+                          <MessageCircleQuestionMark size={18} />
                       </button>
-                      <button className="p-3 bg-white/10 text-white rounded-xl hover:bg-white/20 transition-colors border border-white/10">
+                      <button
+                        onClick={() => setShowShare(true)}
+                        disabled={scanStage !== 'done'}
+                        className="p-3 bg-white/10 text-white rounded-xl hover:bg-white/20 transition-colors border border-white/10 disabled:opacity-30"
+                      >
                           <Share2 size={18} />
                       </button>
                   </div>
@@ -333,9 +1251,107 @@ export const ARView: React.FC<ARViewProps> = ({ onBack }) => {
           </div>
       )}
 
+      {/* Single Tile Editor */}
+      {result && editingIndex !== null && result.generatedVisualizations?.[editingIndex] && (
+          <TileEditor
+              imageUrl={result.generatedVisualizations[editingIndex]}
+              history={getHistory(result)[editingIndex]}
+              aspectRatio={result.aspectRatio ?? '1:1'}
+              busy={busyTiles.includes(editingIndex)}
+              error={editError}
+              onRegenerate={() => handleTileEdit(editingIndex, 'regenerate')}
+              onVariations={() => handleTileEdit(editingIndex, 'variation')}
+              onRefine={(instruction) => handleTileEdit(editingIndex, 'refine', instruction)}
+              onSelectVersion={(url) => setResult((prev) => (prev ? selectVersion(prev, editingIndex, url) : prev))}
+              onClose={() => {
+                  setEditingIndex(null);
+                  setEditError(null);
+              }}
+          />
+      )}
+
+      {/* Offline Queue Banner */}
+      {queueNotice && (
+          <div className="absolute top-20 left-1/2 -translate-x-1/2 z-40 px-4 py-3 max-w-[90%] bg-black/80 backdrop-blur-md border border-amber-400/50 rounded-2xl text-amber-200 text-sm flex items-center gap-2 animate-[fade-in_0.2s_ease-out] pointer-events-none">
+              <CloudOff size={16} className="shrink-0" /> {queueNotice}
+          </div>
+      )}
+
+      {/* Achievement Banner */}
+      {newAchievements.length > 0 && (
+          <div className="absolute top-20 left-1/2 -translate-x-1/2 z-40 px-4 py-3 bg-black/80 backdrop-blur-md border border-yellow-400/50 rounded-2xl text-yellow-200 shadow-[0_0_20px_rgba(250,204,21,0.3)] animate-[fade-in_0.2s_ease-out] pointer-events-none">
+              <div className="text-[10px] font-mono uppercase tracking-widest text-yellow-400/80 flex items-center gap-2 mb-1">
+                  <Trophy size={12} /> {t.bestiary.unlocked}
+              </div>
+              {newAchievements.map((id) => (
+                  <div key={id} className="text-sm font-bold">{t.bestiary.achievementList[id].name}</div>
+              ))}
+          </div>
+      )}
+
+      {/* Interrogation Chat */}
+      {result && result.entity && showInterrogation && (
+          <InterrogationPanel
+              title={result.entity.title}
+              transcript={result.interrogation ?? []}
+              pendingQuestion={pendingQuestion}
+              error={interrogationError}
+              onAsk={handleAsk}
+              onClose={() => setShowInterrogation(false)}
+          />
+      )}
+
+      {/* Share Sheet */}
+      {result && result.entity && showShare && (
+          <ShareSheet result={result} initialIndex={overlayIndex} onClose={() => setShowShare(false)} />
+      )}
+
+      {/* Camera Controls */}
+      {!result && !feedError && !stillImage && !showSettings && scanStage === 'idle' && (
+        <div className="absolute top-24 right-4 z-20 pointer-events-auto">
+          <CameraControls camera={camera} />
+        </div>
+      )}
+
+      {/* Quick Preset Switch, locked like the settings in kiosk mode */}
+      {!kiosk.enabled && !result && !error && !showSettings && scanStage === 'idle' && (
+        <div className="absolute bottom-24 right-6 z-20 pointer-events-auto">
+          <PresetSwitcher presets={presets} activePreset={activePreset} onSelect={handleSelectPreset} />
+        </div>
+      )}
+
+      {/* Censored Anomaly */}
+      {censored && !result && scanStage === 'idle' && !showSettings && (
+          <div className="absolute inset-x-0 bottom-0 z-30 p-6 pointer-events-auto animate-[fade-in_0.2s_ease-out]">
+              <div className="max-w-lg mx-auto bg-zinc-950/95 backdrop-blur-xl border border-amber-500/40 rounded-3xl p-6 text-center shadow-[0_0_30px_rgba(245,158,11,0.2)]">
+                  <ShieldAlert className="mx-auto text-amber-400 mb-3" size={40} />
+                  <h2 className="text-xl font-bold text-amber-200 uppercase tracking-widest mb-2">{t.safety.censoredTitle}</h2>
+                  <p className="text-sm text-white/70 font-light mb-1">{t.safety.censoredHint}</p>
+                  <p className="text-[10px] text-white/40 font-mono uppercase tracking-widest mb-5">
+                      {censored === 'model' ? t.safety.byModel : t.safety.byDenylist}
+                  </p>
+                  <button
+                      onClick={handleReset}
+                      className="w-full py-3 bg-white text-black font-bold rounded-xl hover:bg-cyan-50 transition-colors flex items-center justify-center gap-2"
+                  >
+                      <RefreshCw size={18} /> {t.scanner.rescan}
+                  </button>
+              </div>
+          </div>
+      )}
+
       {/* Main Action Button (Only visible when not showing result) */}
-      {!result && scanStage === 'idle' && !showSettings && (
-        <div className="absolute bottom-12 left-0 right-0 flex justify-center z-20 pointer-events-auto">
+      {!result && !censored && scanStage === 'idle' && !showSettings && (
+        <div className="absolute bottom-12 left-0 right-0 flex items-center justify-center gap-8 z-20 pointer-events-auto">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            title={t.upload.pick}
+            aria-label={t.upload.pick}
+            className="p-4 bg-black/40 backdrop-blur-md rounded-full text-white hover:bg-white/10 transition-colors border border-white/10"
+          >
+              <ImageUp size={22} />
+          </button>
+          {!camera.failed && (
           <button
             onClick={handleScan}
             className="group relative"
@@ -348,19 +1364,44 @@ export const ARView: React.FC<ARViewProps> = ({ onBack }) => {
                 </div>
              </div>
           </button>
+          )}
         </div>
       )}
 
-      {/* Loading Indicator */}
-      {scanStage !== 'idle' && scanStage !== 'done' && (
-          <div className="absolute bottom-12 left-0 right-0 flex flex-col items-center z-20 gap-4 pointer-events-none">
+      {/* Drop target for image files */}
+      {dragging && (
+        <div className="absolute inset-4 z-40 pointer-events-none rounded-3xl border-2 border-dashed border-cyan-400 bg-black/70 flex flex-col items-center justify-center gap-3 text-cyan-300 font-mono text-sm uppercase tracking-widest">
+            <ImageUp size={40} />
+            {t.upload.dropHint}
+        </div>
+      )}
+
+      {/* Loading Indicator + streamed entity text */}
+      {scanStage === 'analyzing' && (
+          <div className="absolute bottom-12 left-0 right-0 flex flex-col items-center z-20 gap-4 pointer-events-none px-6">
+              {partialEntity?.title && (
+                  <div className="w-full max-w-lg bg-black/60 backdrop-blur-md border border-cyan-500/30 rounded-2xl p-4 text-left">
+                      <h2 className="text-lg font-bold text-white leading-tight mb-1">{partialEntity.title}</h2>
+                      {partialEntity.description && (
+                          <p className="text-xs text-white/70 leading-relaxed font-light line-clamp-4">
+                              {partialEntity.description}<span className="inline-block w-1.5 h-3 ml-0.5 bg-cyan-400 animate-pulse align-middle" />
+                          </p>
+                      )}
+                  </div>
+              )}
               <div className="relative">
                 <div className="absolute inset-0 bg-cyan-500 blur-lg opacity-40 animate-pulse"></div>
                 <Loader2 className="animate-spin text-cyan-400 w-12 h-12 relative z-10" />
               </div>
               <p className="text-cyan-300 text-sm font-mono tracking-widest animate-pulse uppercase">
-                  {scanStage === 'analyzing' ? 'Decodificando Realidad...' : 'Materializando (x4)...'}
+                  {t.scanner.decoding}
               </p>
+              <button
+                onClick={handleReset}
+                className="pointer-events-auto px-5 py-2 bg-black/60 backdrop-blur-md text-red-200 text-xs font-mono uppercase tracking-widest rounded-full border border-red-500/30 hover:bg-red-900/40 transition-colors flex items-center gap-2"
+              >
+                  <Ban size={14} /> {t.common.cancel}
+              </button>
           </div>
       )}
     </div>
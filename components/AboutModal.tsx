@@ -1,11 +1,22 @@
 import React from 'react';
 import { X, Cpu, Layers, MapPin } from 'lucide-react';
+import { useI18n } from './I18nProvider';
 
 interface AboutModalProps {
   onClose: () => void;
 }
 
+// Odd segments are highlighted (see the 'about' messages)
+const renderSegments = (segments: string[], Highlight: 'em' | 'strong') =>
+  segments.map((segment, index) =>
+    index % 2 === 1
+      ? <Highlight key={index} className={Highlight === 'em' ? 'text-cyan-400' : undefined}>{segment}</Highlight>
+      : <React.Fragment key={index}>{segment}</React.Fragment>
+  );
+
 export const AboutModal: React.FC<AboutModalProps> = ({ onClose }) => {
+  const { t } = useI18n();
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-md">
       <div className="relative w-full max-w-lg bg-zinc-900 border border-white/10 rounded-2xl p-6 shadow-2xl overflow-y-auto max-h-[90vh]">
@@ -16,11 +27,11 @@ export const AboutModal: React.FC<AboutModalProps> = ({ onClose }) => {
           <X size={20} />
         </button>
 
-        <h2 className="text-2xl font-display font-bold mb-6 text-white">¿Cómo funciona?</h2>
+        <h2 className="text-2xl font-display font-bold mb-6 text-white">{t.about.title}</h2>
         
         <div className="space-y-6 text-white/80">
           <p>
-            Inspirado en la exhibición <em className="text-cyan-400">Seeing the Invisible</em> de Google Arts & Culture, esta aplicación simula la experiencia de descubrir obras de arte digitales ocultas en espacios físicos.
+            {renderSegments(t.about.inspiration, 'em')}
           </p>
 
           <div className="space-y-4">
@@ -29,9 +40,9 @@ export const AboutModal: React.FC<AboutModalProps> = ({ onClose }) => {
                 <MapPin size={20} />
               </div>
               <div>
-                <h3 className="font-bold text-white">El Concepto Original</h3>
+                <h3 className="font-bold text-white">{t.about.conceptTitle}</h3>
                 <p className="text-sm mt-1 text-white/60">
-                  Tradicionalmente, las exhibiciones de RA usan coordenadas GPS para colocar obras 3D específicas en lugares exactos (como jardines botánicos). Tu teléfono actúa como una ventana para ver estos activos pre-colocados.
+                  {renderSegments(t.about.concept, 'strong')}
                 </p>
               </div>
             </div>
@@ -41,9 +52,9 @@ export const AboutModal: React.FC<AboutModalProps> = ({ onClose }) => {
                 <Cpu size={20} />
               </div>
               <div>
-                <h3 className="font-bold text-white">Este Experimento de IA</h3>
+                <h3 className="font-bold text-white">{t.about.experimentTitle}</h3>
                 <p className="text-sm mt-1 text-white/60">
-                  Como estamos en un navegador web sin activos pre-mapeados, esta app usa <strong>IA Generativa (Gemini 2.5)</strong>. En lugar de mostrar arte prefabricado, analiza lo que ve tu cámara y "alucina" entidades invisibles basándose en el contexto visual de tu entorno.
+                  {renderSegments(t.about.experiment, 'strong')}
                 </p>
               </div>
             </div>
@@ -53,9 +64,9 @@ export const AboutModal: React.FC<AboutModalProps> = ({ onClose }) => {
                 <Layers size={20} />
               </div>
               <div>
-                <h3 className="font-bold text-white">La Tecnología</h3>
+                <h3 className="font-bold text-white">{t.about.technologyTitle}</h3>
                 <p className="text-sm mt-1 text-white/60">
-                  Usamos la <strong>API MediaStream</strong> para la cámara y <strong>Gemini 2.5 Flash</strong> para procesar los datos visuales y generar la historia, descripción visual y significado del arte "invisible" en tiempo real.
+                  {renderSegments(t.about.technology, 'strong')}
                 </p>
               </div>
             </div>
@@ -66,7 +77,7 @@ export const AboutModal: React.FC<AboutModalProps> = ({ onClose }) => {
           onClick={onClose}
           className="w-full mt-8 py-3 bg-white/10 hover:bg-white/20 text-white font-medium rounded-lg transition-colors"
         >
-          Entendido
+          {t.about.confirm}
         </button>
       </div>
     </div>
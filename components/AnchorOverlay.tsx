@@ -0,0 +1,99 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { EntityAnchor } from '../types';
+
+interface AnchorOverlayProps {
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  anchor: EntityAnchor;
+  imageUrl?: string;
+  title: string;
+  colorClass: string; // text/border classes from getRarityColor
+}
+
+interface Rect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Maps a normalized frame region onto a video rendered with object-cover
+export const mapAnchorToView = (anchor: EntityAnchor, frameWidth: number, frameHeight: number, viewWidth: number, viewHeight: number): Rect => {
+  const scale = Math.max(viewWidth / frameWidth, viewHeight / frameHeight);
+  const displayWidth = frameWidth * scale;
+  const displayHeight = frameHeight * scale;
+  const offsetX = (viewWidth - displayWidth) / 2;
+  const offsetY = (viewHeight - displayHeight) / 2;
+
+  return {
+    left: offsetX + (anchor.x - anchor.width / 2) * displayWidth,
+    top: offsetY + (anchor.y - anchor.height / 2) * displayHeight,
+    width: anchor.width * displayWidth,
+    height: anchor.height * displayHeight,
+  };
+};
+
+// Inverse of mapAnchorToView: a point on the view back to normalized frame coordinates
+export const mapViewToFrame = (x: number, y: number, frameWidth: number, frameHeight: number, viewWidth: number, viewHeight: number) => {
+  const scale = Math.max(viewWidth / frameWidth, viewHeight / frameHeight);
+  const displayWidth = frameWidth * scale;
+  const displayHeight = frameHeight * scale;
+  const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+  return {
+    x: clamp((x - (viewWidth - displayWidth) / 2) / displayWidth),
+    y: clamp((y - (viewHeight - displayHeight) / 2) / displayHeight),
+  };
+};
+
+// Draws the entity over the live <video> at the location the model reported
+export const AnchorOverlay: React.FC<AnchorOverlayProps> = ({ videoRef, anchor, imageUrl, title, colorClass }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [rect, setRect] = useState<Rect | null>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    const video = videoRef.current;
+    if (!container || !video) return;
+
+    const update = () => {
+      if (!video.videoWidth || !video.videoHeight) return;
+      setRect(mapAnchorToView(anchor, video.videoWidth, video.videoHeight, container.clientWidth, container.clientHeight));
+    };
+
+    update();
+    const observer = new ResizeObserver(update);
+    observer.observe(container);
+    video.addEventListener('loadedmetadata', update);
+    return () => {
+      observer.disconnect();
+      video.removeEventListener('loadedmetadata', update);
+    };
+  }, [videoRef, anchor]);
+
+  return (
+    <div ref={containerRef} className="absolute inset-0 pointer-events-none">
+      {rect && (
+        <div className="absolute transition-all duration-500" style={rect}>
+          {imageUrl && (
+            <img
+              src={imageUrl}
+              alt={title}
+              className="absolute inset-0 w-full h-full object-cover mix-blend-screen animate-pulse-slow"
+              style={{ maskImage: 'radial-gradient(ellipse at center, black 40%, transparent 72%)', WebkitMaskImage: 'radial-gradient(ellipse at center, black 40%, transparent 72%)' }}
+            />
+          )}
+
+          {/* Marker brackets */}
+          <div className={`absolute top-0 left-0 w-5 h-5 border-t-2 border-l-2 ${colorClass}`} />
+          <div className={`absolute top-0 right-0 w-5 h-5 border-t-2 border-r-2 ${colorClass}`} />
+          <div className={`absolute bottom-0 left-0 w-5 h-5 border-b-2 border-l-2 ${colorClass}`} />
+          <div className={`absolute bottom-0 right-0 w-5 h-5 border-b-2 border-r-2 ${colorClass}`} />
+
+          <div className={`absolute -top-6 left-0 text-[10px] font-mono uppercase tracking-widest whitespace-nowrap bg-black/60 px-1.5 rounded ${colorClass}`}>
+            {title}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+import React, { useEffect, useState } from 'react';
+import { Eye, Sparkles } from 'lucide-react';
+import { listScans } from '../services/storage';
+import { ScanResult } from '../types';
+import { getRarityColor } from './rarity';
+import { useI18n } from './I18nProvider';
+
+interface AttractLoopProps {
+  onDismiss: () => void;
+}
+
+const SLIDE_MS = 6000;
+// The most recent discoveries are enough to fill a loop and keep the slides fresh
+const MAX_SLIDES = 20;
+
+// Bucle de atracción del modo quiosco: entidades guardadas a pantalla completa hasta que alguien toca
+export const AttractLoop: React.FC<AttractLoopProps> = ({ onDismiss }) => {
+  const { t } = useI18n();
+  const [scans, setScans] = useState<ScanResult[]>([]);
+  const [index, setIndex] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    listScans()
+      .then((saved) => {
+        if (!cancelled) setScans(saved.filter((scan) => scan.entity && scan.generatedVisualizations?.length).slice(0, MAX_SLIDES));
+      })
+      .catch((err) => console.error("Failed to load attract loop:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (scans.length < 2) return;
+    const interval = window.setInterval(() => setIndex((prev) => (prev + 1) % scans.length), SLIDE_MS);
+    return () => window.clearInterval(interval);
+  }, [scans.length]);
+
+  const scan = scans[index];
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] bg-black text-white overflow-hidden font-display cursor-pointer"
+      onClick={onDismiss}
+    >
+      {scan ? (
+          <>
+              <img
+                  key={scan.id}
+                  src={scan.generatedVisualizations![0]}
+                  alt={scan.entity!.title}
+                  className="absolute inset-0 w-full h-full object-cover"
+              />
+              <div className="absolute inset-x-0 bottom-0 p-8 pb-32 bg-gradient-to-t from-black via-black/70 to-transparent">
+                  <span className={`inline-block px-2 py-1 mb-3 text-[10px] uppercase tracking-widest border rounded bg-black/50 ${getRarityColor(scan.entity!.rarity).split(' ').slice(0, 2).join(' ')}`}>
+                      {t.rarity[scan.entity!.rarity]}
+                  </span>
+                  <h2 className="text-3xl font-bold mb-2">{scan.entity!.title}</h2>
+                  <p className="text-white/70 font-light line-clamp-3 max-w-2xl">{scan.entity!.description}</p>
+              </div>
+          </>
+      ) : (
+          <div className="absolute inset-0 flex items-center justify-center">
+              <Eye size={96} className="text-white/30 animate-pulse-slow" />
+          </div>
+      )}
+
+      <div className="absolute bottom-10 inset-x-0 flex justify-center">
+          <span className="px-6 py-3 bg-white text-black font-bold rounded-full flex items-center gap-2 animate-pulse">
+              {t.kiosk.touchToStart} <Sparkles size={18} />
+          </span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,44 @@
+import React, { useState } from 'react';
+import { useI18n } from './I18nProvider';
+
+interface BeforeAfterSliderProps {
+  before: string;
+  after: string;
+  className?: string;
+}
+
+// Compara la captura original con la versión editada arrastrando el divisor
+export const BeforeAfterSlider: React.FC<BeforeAfterSliderProps> = ({ before, after, className = '' }) => {
+  const { t } = useI18n();
+  const [position, setPosition] = useState(50);
+
+  return (
+    <div className={`relative overflow-hidden select-none ${className}`}>
+      <img src={after} alt={t.slider.composite} className="block w-full h-full object-cover" />
+      <img
+        src={before}
+        alt={t.entity.snapshot}
+        className="absolute inset-0 w-full h-full object-cover"
+        style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}
+      />
+
+      {/* Divider */}
+      <div className="absolute top-0 bottom-0 w-0.5 bg-cyan-400 shadow-[0_0_10px_rgba(34,211,238,0.8)] pointer-events-none" style={{ left: `${position}%` }}>
+        <div className="absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-8 h-8 rounded-full bg-black/60 border border-cyan-400 backdrop-blur-md" />
+      </div>
+
+      <span className="absolute top-2 left-2 text-[10px] font-mono text-white/70 uppercase tracking-widest bg-black/50 px-1.5 rounded pointer-events-none">{t.slider.before}</span>
+      <span className="absolute top-2 right-2 text-[10px] font-mono text-cyan-300 uppercase tracking-widest bg-black/50 px-1.5 rounded pointer-events-none">{t.slider.after}</span>
+
+      <input
+        type="range"
+        min={0}
+        max={100}
+        value={position}
+        onChange={(e) => setPosition(Number(e.target.value))}
+        aria-label={t.slider.compare}
+        className="absolute inset-0 w-full h-full opacity-0 cursor-ew-resize"
+      />
+    </div>
+  );
+};
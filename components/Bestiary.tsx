@@ -0,0 +1,121 @@
+import React, { useMemo } from 'react';
+import { ArrowLeft, BookOpen, Trophy, Lock, MapPin } from 'lucide-react';
+import { RARITIES } from '../services/rarity';
+import { ACHIEVEMENTS, computeBestiary, loadDiscoveries } from '../services/bestiary';
+import { getRarityColor } from './rarity';
+import { useI18n } from './I18nProvider';
+
+interface BestiaryProps {
+  onBack: () => void;
+}
+
+// Bestiario: colección por rareza, rachas, logros y registro de descubrimientos
+export const Bestiary: React.FC<BestiaryProps> = ({ onBack }) => {
+  const { locale, t } = useI18n();
+  const stats = useMemo(() => computeBestiary(loadDiscoveries()), []);
+  const formatDate = (timestamp: number) => new Date(timestamp).toLocaleDateString(locale);
+
+  return (
+    <div className="relative h-screen w-full bg-black text-white overflow-hidden font-display flex flex-col">
+      {/* Top Bar */}
+      <div className="p-4 flex items-center gap-4 bg-gradient-to-b from-black/90 to-transparent">
+        <button
+            onClick={onBack}
+            className="p-3 bg-black/40 backdrop-blur-md rounded-full text-white hover:bg-white/10 transition-colors border border-white/10"
+        >
+            <ArrowLeft size={20} />
+        </button>
+        <h2 className="text-xl font-bold flex items-center gap-2">
+            <BookOpen className="text-cyan-400" size={20} /> {t.bestiary.title}
+        </h2>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 pb-8 space-y-8">
+        {/* Stats */}
+        <div className="grid grid-cols-2 gap-3">
+            {[
+                [t.bestiary.discoveries, String(stats.discoveries.length)],
+                [t.bestiary.scans, String(stats.scans)],
+                [t.bestiary.streak, t.bestiary.days(stats.currentStreak)],
+                [t.bestiary.bestStreak, t.bestiary.days(stats.bestStreak)],
+            ].map(([label, value]) => (
+                <div key={label} className="p-4 rounded-2xl bg-zinc-900/60 border border-white/10">
+                    <div className="text-[10px] font-mono uppercase tracking-widest text-cyan-400">{label}</div>
+                    <div className="text-2xl font-bold mt-1">{value}</div>
+                </div>
+            ))}
+        </div>
+
+        {/* Rarity Collection */}
+        <div className="grid grid-cols-2 gap-3">
+            {RARITIES.map((rarity) => {
+                const first = stats.firstDiscovered[rarity];
+                return (
+                    <div
+                        key={rarity}
+                        className={`p-4 rounded-2xl border bg-gradient-to-br ${getRarityColor(rarity)} ${first === null ? 'opacity-40' : ''}`}
+                    >
+                        <div className="text-[10px] uppercase tracking-widest">{t.rarity[rarity]}</div>
+                        <div className="text-3xl font-bold text-white mt-1">{stats.counts[rarity]}</div>
+                        <div className="text-[10px] font-mono text-white/50 mt-1">
+                            {first === null ? t.bestiary.notYet : t.bestiary.firstDiscovered(formatDate(first))}
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+
+        {/* Achievements */}
+        <div>
+            <h3 className="text-sm text-cyan-400 mb-3 font-mono uppercase tracking-widest">{t.bestiary.achievements}</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                {ACHIEVEMENTS.map((id) => {
+                    const unlockedAt = stats.unlocked[id];
+                    const achievement = t.bestiary.achievementList[id];
+                    return (
+                        <div
+                            key={id}
+                            className={`flex items-center gap-3 p-3 rounded-xl border ${
+                                unlockedAt !== undefined
+                                ? 'bg-yellow-500/10 border-yellow-400/40 text-yellow-200'
+                                : 'bg-zinc-900/50 border-white/5 text-white/30'
+                            }`}
+                        >
+                            {unlockedAt !== undefined ? <Trophy size={18} className="shrink-0" /> : <Lock size={18} className="shrink-0" />}
+                            <div className="min-w-0 flex-1">
+                                <div className="text-sm font-bold">{achievement.name}</div>
+                                <div className="text-xs opacity-70">{achievement.description}</div>
+                            </div>
+                            {unlockedAt !== undefined && (
+                                <span className="text-[10px] font-mono opacity-60 shrink-0">{formatDate(unlockedAt)}</span>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+
+        {/* Discovery Log */}
+        <div>
+            <h3 className="text-sm text-cyan-400 mb-3 font-mono uppercase tracking-widest">{t.bestiary.log}</h3>
+            {stats.discoveries.length === 0 ? (
+                <p className="text-sm text-white/50 text-center p-6">{t.bestiary.empty}</p>
+            ) : (
+                <ul className="space-y-2">
+                    {stats.discoveries.map((record) => (
+                        <li key={`${record.scanId}-${record.timestamp}`} className="flex items-center gap-3 p-3 rounded-xl bg-zinc-900/50 border border-white/5">
+                            <span className={`px-1.5 py-0.5 text-[8px] uppercase tracking-widest border rounded bg-black/50 shrink-0 ${getRarityColor(record.rarity).split(' ').slice(0, 2).join(' ')}`}>
+                                {t.rarity[record.rarity]}
+                            </span>
+                            <span className="text-sm font-bold flex-1 truncate">{record.title}</span>
+                            {record.location && <MapPin size={12} className="text-white/40 shrink-0" />}
+                            <span className="text-[10px] font-mono text-white/40 shrink-0">{formatDate(record.timestamp)}</span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+      </div>
+    </div>
+  );
+};
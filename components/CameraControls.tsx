@@ -0,0 +1,52 @@
+import React from 'react';
+import { SwitchCamera, Flashlight, FlashlightOff, ZoomIn } from 'lucide-react';
+import { CameraControls as Camera } from './useCamera';
+import { useI18n } from './I18nProvider';
+
+interface CameraControlsProps {
+  camera: Camera;
+}
+
+const BUTTON_CLASS = 'p-3 bg-black/40 backdrop-blur-md rounded-full text-white hover:bg-white/10 transition-colors border border-white/10';
+
+// Controles de cámara en el HUD; solo aparece lo que el dispositivo soporta
+export const CameraControls: React.FC<CameraControlsProps> = ({ camera }) => {
+  const { t } = useI18n();
+  const { capabilities, zoom } = camera;
+
+  return (
+    <div className="flex flex-col items-end gap-3">
+      {camera.devices.length > 1 && (
+          <button onClick={camera.switchFacing} title={t.camera.switchFacing} aria-label={t.camera.switchFacing} className={BUTTON_CLASS}>
+              <SwitchCamera size={20} />
+          </button>
+      )}
+      {capabilities.torch && (
+          <button
+              onClick={() => camera.setTorch(!camera.torch)}
+              title={camera.torch ? t.camera.torchOff : t.camera.torchOn}
+              aria-label={camera.torch ? t.camera.torchOff : t.camera.torchOn}
+              className={`${BUTTON_CLASS} ${camera.torch ? 'text-yellow-300 border-yellow-400/50' : ''}`}
+          >
+              {camera.torch ? <Flashlight size={20} /> : <FlashlightOff size={20} />}
+          </button>
+      )}
+      {capabilities.zoom && zoom !== null && (
+          <label className="flex items-center gap-2 px-3 py-2 bg-black/40 backdrop-blur-md rounded-full border border-white/10 text-cyan-400">
+              <ZoomIn size={14} className="shrink-0" />
+              <input
+                  type="range"
+                  min={capabilities.zoom.min}
+                  max={capabilities.zoom.max}
+                  step={capabilities.zoom.step}
+                  value={zoom}
+                  onChange={(e) => camera.setZoom(Number(e.target.value))}
+                  aria-label={t.camera.zoom}
+                  className="w-24 accent-cyan-400"
+              />
+              <span className="w-8 text-[10px] font-mono text-right">x{zoom.toFixed(1)}</span>
+          </label>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,230 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ArrowLeft, Trash2, Loader2, X, Images } from 'lucide-react';
+import { listScans, deleteScan } from '../services/storage';
+import { Rarity, ScanResult } from '../types';
+import { RARITIES } from '../services/rarity';
+import { getRarityColor } from './rarity';
+import { useI18n } from './I18nProvider';
+import { BeforeAfterSlider } from './BeforeAfterSlider';
+import { aspectRatioValue } from '../services/generation';
+
+interface GalleryProps {
+  onBack: () => void;
+  // Off in kiosk mode, where visitors must not wipe the collection
+  canDelete?: boolean;
+}
+
+export const Gallery: React.FC<GalleryProps> = ({ onBack, canDelete = true }) => {
+  const { locale, t } = useI18n();
+  const [scans, setScans] = useState<ScanResult[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [rarityFilter, setRarityFilter] = useState<Rarity | null>(null);
+  const [selected, setSelected] = useState<ScanResult | null>(null);
+
+  const loadScans = useCallback(async () => {
+    setLoading(true);
+    try {
+      setScans(await listScans(rarityFilter ?? undefined));
+      setError(null);
+    } catch (err) {
+      console.error(err);
+      setError(t.gallery.loadError);
+    } finally {
+      setLoading(false);
+    }
+  }, [rarityFilter, t]);
+
+  useEffect(() => {
+    loadScans();
+  }, [loadScans]);
+
+  const handleDelete = async (scan: ScanResult) => {
+    if (!window.confirm(t.gallery.confirmDelete(scan.entity?.title ?? t.entity.anomaly))) return;
+    try {
+      await deleteScan(scan.id);
+      setSelected(null);
+      setScans((prev) => prev.filter((s) => s.id !== scan.id));
+    } catch (err) {
+      console.error(err);
+      setError(t.gallery.deleteError);
+    }
+  };
+
+  return (
+    <div className="relative h-screen w-full bg-black text-white overflow-hidden font-display flex flex-col">
+      {/* Top Bar */}
+      <div className="p-4 flex items-center gap-4 bg-gradient-to-b from-black/90 to-transparent">
+        <button
+            onClick={onBack}
+            className="p-3 bg-black/40 backdrop-blur-md rounded-full text-white hover:bg-white/10 transition-colors border border-white/10"
+        >
+            <ArrowLeft size={20} />
+        </button>
+        <h2 className="text-xl font-bold flex items-center gap-2">
+            <Images className="text-cyan-400" size={20} /> {t.gallery.title}
+        </h2>
+      </div>
+
+      {/* Rarity Filter */}
+      <div className="px-4 pb-4 flex gap-2 overflow-x-auto">
+        <button
+            onClick={() => setRarityFilter(null)}
+            className={`px-3 py-1 text-[10px] uppercase tracking-widest border rounded ${
+                rarityFilter === null ? 'bg-white text-black border-white' : 'text-white/50 border-white/20 hover:text-white'
+            }`}
+        >
+            {t.gallery.all}
+        </button>
+        {RARITIES.map((rarity) => (
+            <button
+                key={rarity}
+                onClick={() => setRarityFilter(rarity)}
+                className={`px-3 py-1 text-[10px] uppercase tracking-widest border rounded ${getRarityColor(rarity).split(' ').slice(0, 2).join(' ')} ${
+                    rarityFilter === rarity ? 'bg-white/10' : 'bg-black/50 opacity-60 hover:opacity-100'
+                }`}
+            >
+                {t.rarity[rarity]}
+            </button>
+        ))}
+      </div>
+
+      {/* Grid */}
+      <div className="flex-1 overflow-y-auto px-4 pb-8">
+        {loading ? (
+            <div className="flex items-center justify-center h-full">
+                <Loader2 className="animate-spin text-white/30" size={48} />
+            </div>
+        ) : error ? (
+            <div className="flex items-center justify-center h-full text-white/50 p-6 text-center">{error}</div>
+        ) : scans.length === 0 ? (
+            <div className="flex items-center justify-center h-full text-white/50 p-6 text-center">
+                {t.gallery.empty}
+            </div>
+        ) : (
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                {scans.map((scan) => (
+                    <button
+                        key={scan.id}
+                        onClick={() => setSelected(scan)}
+                        className="relative aspect-square rounded-2xl overflow-hidden border border-white/10 text-left group"
+                    >
+                        <img
+                            src={scan.generatedVisualizations?.[0] ?? scan.image}
+                            alt={scan.entity?.title ?? t.entity.anomaly}
+                            className="absolute inset-0 w-full h-full object-cover group-hover:scale-105 transition-transform duration-500"
+                        />
+                        <div className="absolute inset-x-0 bottom-0 p-3 bg-gradient-to-t from-black/90 to-transparent">
+                            {scan.entity && (
+                                <span className={`inline-block px-1.5 py-0.5 mb-1 text-[8px] uppercase tracking-widest border rounded bg-black/50 ${getRarityColor(scan.entity.rarity).split(' ').slice(0, 2).join(' ')}`}>
+                                    {t.rarity[scan.entity.rarity]}
+                                </span>
+                            )}
+                            <div className="text-sm font-bold leading-tight line-clamp-2">{scan.entity?.title ?? t.entity.unidentified}</div>
+                        </div>
+                    </button>
+                ))}
+            </div>
+        )}
+      </div>
+
+      {/* Detail Overlay */}
+      {selected && (
+        <div className="absolute inset-0 z-50 bg-black/95 backdrop-blur-xl flex flex-col animate-[fade-in_0.2s_ease-out]">
+            <div className="p-4 flex justify-between items-center">
+                <span className="text-xs font-mono text-white/40">
+                    {new Date(selected.timestamp).toLocaleString(locale)}
+                </span>
+                <button onClick={() => setSelected(null)} className="text-white/50 hover:text-white">
+                    <X size={24} />
+                </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto px-6 pb-6 space-y-6">
+                {selected.compositeImage && (
+                    <BeforeAfterSlider
+                        before={selected.image}
+                        after={selected.compositeImage}
+                        className="w-full aspect-video rounded-2xl border border-white/20"
+                    />
+                )}
+
+                <div className="grid grid-cols-2 gap-4">
+                    {(selected.generatedVisualizations ?? []).map((imgUrl, index) => (
+                        <img
+                            key={index}
+                            src={imgUrl}
+                            alt={t.entity.visualization(index + 1)}
+                            className="w-full object-cover rounded-2xl border border-white/20"
+                            style={{ aspectRatio: aspectRatioValue(selected.aspectRatio ?? '1:1') }}
+                        />
+                    ))}
+                    <div className="relative">
+                        <img
+                            src={selected.image}
+                            alt={t.entity.snapshot}
+                            className="w-full aspect-square object-cover rounded-2xl border border-white/10 grayscale opacity-70"
+                        />
+                        <span className="absolute bottom-2 left-2 text-[10px] font-mono text-white/60 uppercase tracking-widest">{t.entity.snapshotLabel}</span>
+                    </div>
+                </div>
+
+                {selected.entity && (
+                    <div>
+                        <span className={`inline-block px-2 py-1 mb-2 text-[10px] uppercase tracking-widest border rounded bg-black/50 ${getRarityColor(selected.entity.rarity).split(' ').slice(0, 2).join(' ')}`}>
+                            {t.rarity[selected.entity.rarity]}
+                        </span>
+                        <h2 className="text-xl font-bold text-white mb-3 leading-tight">{selected.entity.title}</h2>
+                        {selected.entity.relatedTo && (
+                            <p className="text-xs text-white/50 italic mb-3 -mt-2">
+                                ↳ {selected.entity.relatedTo.relation}: <span className="not-italic font-bold text-white/70">{selected.entity.relatedTo.title}</span>
+                            </p>
+                        )}
+                        <p className="text-sm text-white/80 leading-relaxed font-light mb-4 border-l-2 border-white/20 pl-4">
+                            {selected.entity.description}
+                        </p>
+                        <dl className="grid grid-cols-1 gap-3 text-sm">
+                            <div>
+                                <dt className="text-cyan-400 font-mono uppercase tracking-widest text-[10px]">{t.entity.meaning}</dt>
+                                <dd className="text-white/70">{selected.entity.meaning}</dd>
+                            </div>
+                            <div>
+                                <dt className="text-cyan-400 font-mono uppercase tracking-widest text-[10px]">{t.entity.estimatedAge}</dt>
+                                <dd className="text-white/70">{selected.entity.estimatedAge}</dd>
+                            </div>
+                        </dl>
+                    </div>
+                )}
+
+                {selected.interrogation && selected.interrogation.length > 0 && (
+                    <div>
+                        <h3 className="text-cyan-400 font-mono uppercase tracking-widest text-[10px] mb-2">{t.interrogation.open}</h3>
+                        <div className="space-y-2">
+                            {selected.interrogation.map((message, index) => (
+                                <p
+                                    key={index}
+                                    className={`text-sm leading-relaxed ${message.role === 'user' ? 'text-white font-bold' : 'text-white/70 font-light pl-4 border-l-2 border-white/20'}`}
+                                >
+                                    {message.text}
+                                </p>
+                            ))}
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            {canDelete && (
+                <div className="p-6 pt-0">
+                    <button
+                        onClick={() => handleDelete(selected)}
+                        className="w-full py-3 bg-red-900/40 hover:bg-red-800/60 text-red-300 font-bold rounded-xl flex items-center justify-center gap-2 transition-colors border border-red-500/30"
+                    >
+                        <Trash2 size={18} /> {t.common.delete}
+                    </button>
+                </div>
+            )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,157 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArrowLeft, Map as MapIcon, Loader2, Navigation } from 'lucide-react';
+import { listScans } from '../services/storage';
+import { GeoPosition, GeoSource, bearingDegrees, browserGeoSource, distanceMeters, formatDistance } from '../services/geo';
+import { ScanResult } from '../types';
+import { RARITY_HEX, getRarityColor } from './rarity';
+import { useI18n } from './I18nProvider';
+
+interface HauntedMapProps {
+  onBack: () => void;
+  geoSource?: GeoSource;
+}
+
+interface PlacedScan {
+  scan: ScanResult;
+  distance: number;
+  bearing: number;
+}
+
+// The radar never zooms in closer than this, so a couple of nearby scans do not sit on its edge
+const MIN_RADAR_RANGE_M = 100;
+const RADAR_SIZE = 240;
+
+// Mapa encantado: entidades guardadas alrededor del visitante, con el norte arriba
+export const HauntedMap: React.FC<HauntedMapProps> = ({ onBack, geoSource = browserGeoSource }) => {
+  const { t } = useI18n();
+  const [position, setPosition] = useState<GeoPosition | null>(null);
+  const [scans, setScans] = useState<ScanResult[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([geoSource.getPosition(), listScans()])
+      .then(([here, saved]) => {
+        if (cancelled) return;
+        setPosition(here);
+        setScans(saved.filter((scan) => scan.entity && scan.location));
+      })
+      .catch((err) => {
+        console.error(err);
+        if (!cancelled) setError(t.map.unavailable);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [geoSource, t]);
+
+  const placed = useMemo<PlacedScan[]>(() => {
+    if (!position) return [];
+    return scans
+      .map((scan) => ({
+        scan,
+        distance: distanceMeters(position, scan.location!),
+        bearing: bearingDegrees(position, scan.location!),
+      }))
+      .sort((a, b) => a.distance - b.distance);
+  }, [position, scans]);
+
+  const range = Math.max(MIN_RADAR_RANGE_M, ...placed.map((p) => p.distance));
+  const center = RADAR_SIZE / 2;
+  const radius = center - 12;
+
+  return (
+    <div className="relative h-screen w-full bg-black text-white overflow-hidden font-display flex flex-col">
+      {/* Top Bar */}
+      <div className="p-4 flex items-center gap-4 bg-gradient-to-b from-black/90 to-transparent">
+        <button
+            onClick={onBack}
+            className="p-3 bg-black/40 backdrop-blur-md rounded-full text-white hover:bg-white/10 transition-colors border border-white/10"
+        >
+            <ArrowLeft size={20} />
+        </button>
+        <h2 className="text-xl font-bold flex items-center gap-2">
+            <MapIcon className="text-cyan-400" size={20} /> {t.map.title}
+        </h2>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 pb-8">
+        {loading ? (
+            <div className="flex flex-col items-center justify-center h-full gap-4 text-white/50">
+                <Loader2 className="animate-spin text-white/30" size={48} />
+                <span className="text-xs font-mono uppercase tracking-widest">{t.map.locating}</span>
+            </div>
+        ) : error || !position ? (
+            <div className="flex items-center justify-center h-full text-white/50 p-6 text-center">{error ?? t.map.unavailable}</div>
+        ) : (
+            <div className="space-y-6">
+                {/* Radar */}
+                <div className="flex flex-col items-center gap-2">
+                    <svg width={RADAR_SIZE} height={RADAR_SIZE} viewBox={`0 0 ${RADAR_SIZE} ${RADAR_SIZE}`} className="max-w-full">
+                        {[1, 0.66, 0.33].map((ring) => (
+                            <circle key={ring} cx={center} cy={center} r={radius * ring} fill="none" stroke="rgba(34,211,238,0.2)" />
+                        ))}
+                        <line x1={center} y1={center - radius} x2={center} y2={center + radius} stroke="rgba(34,211,238,0.1)" />
+                        <line x1={center - radius} y1={center} x2={center + radius} y2={center} stroke="rgba(34,211,238,0.1)" />
+                        <text x={center} y={9} textAnchor="middle" fontSize="9" fill="rgba(34,211,238,0.7)" fontFamily="monospace">N</text>
+                        {placed.map(({ scan, distance, bearing }) => {
+                            const r = (distance / range) * radius;
+                            const angle = (bearing * Math.PI) / 180;
+                            return (
+                                <circle
+                                    key={scan.id}
+                                    cx={center + r * Math.sin(angle)}
+                                    cy={center - r * Math.cos(angle)}
+                                    r={5}
+                                    fill={RARITY_HEX[scan.entity!.rarity]}
+                                    stroke="black"
+                                >
+                                    <title>{scan.entity!.title}</title>
+                                </circle>
+                            );
+                        })}
+                        <circle cx={center} cy={center} r={4} fill="white">
+                            <title>{t.map.you}</title>
+                        </circle>
+                    </svg>
+                    <div className="text-[10px] font-mono text-white/40 text-center">
+                        ⌀ {formatDistance(range * 2)} · {t.map.accuracy(formatDistance(position.accuracy))}
+                    </div>
+                </div>
+
+                {/* Nearby List */}
+                {placed.length === 0 ? (
+                    <p className="text-sm text-white/50 text-center p-6">{t.map.empty}</p>
+                ) : (
+                    <ul className="space-y-2">
+                        {placed.map(({ scan, distance, bearing }) => (
+                            <li key={scan.id} className="flex items-center gap-3 p-2 pr-4 rounded-2xl bg-zinc-900/50 border border-white/5">
+                                <img
+                                    src={scan.generatedVisualizations?.[0] ?? scan.image}
+                                    alt={scan.entity!.title}
+                                    className="w-14 h-14 rounded-xl object-cover border border-white/10 shrink-0"
+                                />
+                                <div className="min-w-0 flex-1">
+                                    <span className={`inline-block px-1.5 py-0.5 mb-1 text-[8px] uppercase tracking-widest border rounded bg-black/50 ${getRarityColor(scan.entity!.rarity).split(' ').slice(0, 2).join(' ')}`}>
+                                        {t.rarity[scan.entity!.rarity]}
+                                    </span>
+                                    <div className="text-sm font-bold truncate">{scan.entity!.title}</div>
+                                </div>
+                                <div className="flex flex-col items-end gap-1 shrink-0 text-cyan-300">
+                                    <Navigation size={14} style={{ transform: `rotate(${bearing}deg)` }} />
+                                    <span className="text-xs font-mono">{formatDistance(distance)}</span>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        )}
+      </div>
+    </div>
+  );
+};
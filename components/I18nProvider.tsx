@@ -0,0 +1,37 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { DEFAULT_LOCALE, Locale, getMessages, loadLocale, saveLocale } from '../services/i18n';
+import { Messages } from '../services/locales/es';
+
+interface I18nContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: Messages;
+}
+
+const I18nContext = createContext<I18nContextValue>({
+  locale: DEFAULT_LOCALE,
+  setLocale: () => {},
+  t: getMessages(DEFAULT_LOCALE),
+});
+
+// Idioma activo de la app, persistido en localStorage
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Locale>(loadLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = (next: Locale) => {
+    setLocaleState(next);
+    saveLocale(next);
+  };
+
+  return (
+    <I18nContext.Provider value={{ locale, setLocale, t: getMessages(locale) }}>
+      {children}
+    </I18nContext.Provider>
+  );
+};
+
+export const useI18n = () => useContext(I18nContext);
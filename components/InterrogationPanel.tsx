@@ -0,0 +1,94 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MessageCircleQuestionMark, Send, Loader2, X } from 'lucide-react';
+import { InterrogationMessage } from '../types';
+import { useI18n } from './I18nProvider';
+
+interface InterrogationPanelProps {
+  title: string;
+  transcript: InterrogationMessage[];
+  pendingQuestion: string | null; // shown while its answer is on the way
+  error: string | null;
+  onAsk: (question: string) => void;
+  onClose: () => void;
+}
+
+// Chat "Interrogar": el visitante pregunta y la entidad responde según su ficha
+export const InterrogationPanel: React.FC<InterrogationPanelProps> = ({ title, transcript, pendingQuestion, error, onAsk, onClose }) => {
+  const { t } = useI18n();
+  const [question, setQuestion] = useState('');
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [transcript.length, pendingQuestion]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!question.trim() || pendingQuestion) return;
+    onAsk(question.trim());
+    setQuestion('');
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black/95 backdrop-blur-xl p-6 flex flex-col animate-[fade-in_0.2s_ease-out]">
+        <div className="flex justify-between items-center mb-4">
+            <h2 className="text-xl font-bold text-white flex items-center gap-2 min-w-0">
+                <MessageCircleQuestionMark className="text-cyan-400 shrink-0" size={20}/>
+                <span className="truncate">{t.interrogation.title(title)}</span>
+            </h2>
+            <button onClick={onClose} className="text-white/50 hover:text-white">
+                <X size={24} />
+            </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-3 mb-4">
+            {transcript.length === 0 && !pendingQuestion && (
+                <p className="text-sm text-white/40 text-center font-light mt-8">{t.interrogation.empty}</p>
+            )}
+            {transcript.map((message, index) => (
+                <div key={index} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                    <p className={`max-w-[80%] px-4 py-2 rounded-2xl text-sm leading-relaxed ${
+                        message.role === 'user'
+                        ? 'bg-cyan-600/40 text-white rounded-br-sm'
+                        : 'bg-zinc-800/80 text-white/90 font-light border border-white/10 rounded-bl-sm'
+                    }`}>
+                        {message.text}
+                    </p>
+                </div>
+            ))}
+            {pendingQuestion && (
+                <>
+                    <div className="flex justify-end">
+                        <p className="max-w-[80%] px-4 py-2 rounded-2xl rounded-br-sm text-sm leading-relaxed bg-cyan-600/40 text-white">{pendingQuestion}</p>
+                    </div>
+                    <div className="flex justify-start">
+                        <Loader2 className="animate-spin text-cyan-400 m-2" size={18} />
+                    </div>
+                </>
+            )}
+            <div ref={endRef} />
+        </div>
+
+        {error && <p className="text-center text-xs text-red-300/80 font-mono mb-3">{error}</p>}
+
+        <form onSubmit={handleSubmit} className="flex gap-2">
+            <input
+                type="text"
+                value={question}
+                onChange={(e) => setQuestion(e.target.value)}
+                maxLength={500}
+                placeholder={t.interrogation.placeholder}
+                className="flex-1 bg-zinc-900/50 border border-white/20 rounded-xl p-3 text-white text-sm focus:outline-none focus:border-cyan-500"
+            />
+            <button
+                type="submit"
+                disabled={!!pendingQuestion || !question.trim()}
+                aria-label={t.interrogation.send}
+                className="px-4 bg-cyan-600 hover:bg-cyan-500 disabled:opacity-50 text-white font-bold rounded-xl flex items-center gap-2 transition-colors"
+            >
+                <Send size={18} />
+            </button>
+        </form>
+    </div>
+  );
+};
@@ -1,14 +1,25 @@
 import React from 'react';
-import { Eye, Sparkles } from 'lucide-react';
+import { Eye, Sparkles, Images, BookOpen, Map as MapIcon } from 'lucide-react';
+import { useI18n } from './I18nProvider';
+import { LanguageSwitcher } from './LanguageSwitcher';
 
 interface IntroProps {
   onStart: () => void;
   onAbout: () => void;
+  onGallery: () => void;
+  onBestiary: () => void;
+  onMap: () => void;
 }
 
-export const Intro: React.FC<IntroProps> = ({ onStart }) => {
+export const Intro: React.FC<IntroProps> = ({ onStart, onAbout, onGallery, onBestiary, onMap }) => {
+  const { t } = useI18n();
+
   return (
     <div className="relative h-screen w-full flex flex-col items-center justify-center p-6 bg-black text-white overflow-hidden">
+      <div className="absolute top-4 right-4 z-20">
+        <LanguageSwitcher />
+      </div>
+
       {/* Abstract Background Blobs */}
       <div className="absolute top-[-20%] left-[-20%] w-[600px] h-[600px] bg-purple-900/30 rounded-full blur-[100px] animate-pulse-slow" />
       <div className="absolute bottom-[-10%] right-[-10%] w-[500px] h-[500px] bg-blue-900/20 rounded-full blur-[80px] animate-pulse-slow" style={{ animationDelay: '1s' }} />
@@ -25,11 +36,11 @@ export const Intro: React.FC<IntroProps> = ({ onStart }) => {
           <h1 className="text-4xl md:text-5xl font-display font-bold tracking-tighter bg-clip-text text-transparent bg-gradient-to-b from-white to-white/50 uppercase">
             OJO ALUCINATORIO<br />ONLINE
           </h1>
-          <p className="text-white/60 text-sm uppercase tracking-[0.2em]">Experimento de Realidad Aumentada</p>
+          <p className="text-white/60 text-sm uppercase tracking-[0.2em]">{t.intro.subtitle}</p>
         </div>
 
         <p className="text-white/80 leading-relaxed">
-          El mundo está lleno de arte que no puedes ver. Usa tu dispositivo para revelar las entidades invisibles, estructuras y recuerdos ocultos en los espacios vacíos a tu alrededor.
+          {t.intro.tagline}
         </p>
 
         <div className="flex flex-col w-full space-y-4 pt-8">
@@ -38,15 +49,38 @@ export const Intro: React.FC<IntroProps> = ({ onStart }) => {
             className="group relative w-full py-4 bg-white text-black font-bold text-lg rounded-full overflow-hidden transition-transform hover:scale-105 active:scale-95"
           >
             <span className="relative z-10 flex items-center justify-center gap-2">
-              Iniciar Escáner <Sparkles size={18} />
+              {t.intro.start} <Sparkles size={18} />
             </span>
             <div className="absolute inset-0 bg-gradient-to-r from-cyan-200 to-purple-200 opacity-0 group-hover:opacity-100 transition-opacity" />
           </button>
+
+          <div className="grid grid-cols-3 gap-2">
+            {([
+              [onGallery, <Images size={18} />, t.intro.gallery],
+              [onBestiary, <BookOpen size={18} />, t.intro.bestiary],
+              [onMap, <MapIcon size={18} />, t.intro.map],
+            ] as const).map(([onClick, icon, label]) => (
+              <button
+                key={label}
+                onClick={onClick}
+                className="py-3 border border-white/20 text-white/80 font-bold text-sm rounded-full flex items-center justify-center gap-2 hover:bg-white/10 hover:text-white transition-colors"
+              >
+                {icon} {label}
+              </button>
+            ))}
+          </div>
+
+          <button
+            onClick={onAbout}
+            className="text-white/50 text-sm hover:text-white transition-colors"
+          >
+            {t.intro.about}
+          </button>
         </div>
       </div>
       
       <div className="absolute bottom-6 text-[10px] text-white/20">
-        Impulsado por Google Gemini 2.5
+        {t.intro.poweredBy}
       </div>
     </div>
   );
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { IDLE_TIMEOUTS, KioskSettings, RESULT_TIMEOUTS, isValidPin } from '../services/kiosk';
+import { useI18n } from './I18nProvider';
+
+interface KioskSectionProps {
+  settings: KioskSettings;
+  onChange: (settings: KioskSettings) => void;
+}
+
+const optionClass = (selected: boolean) =>
+  `py-3 px-3 rounded-lg text-sm font-bold transition-all border ${
+    selected
+    ? 'bg-cyan-500/30 border-cyan-400 text-cyan-300 shadow-[0_0_15px_rgba(6,182,212,0.3)]'
+    : 'bg-zinc-800/50 border-white/5 text-white/40 hover:bg-white/10 hover:text-white'
+  }`;
+
+const formatSeconds = (seconds: number) => (seconds < 60 ? `${seconds} s` : `${seconds / 60} min`);
+
+// Modo quiosco dentro de la Calibración de Lente
+export const KioskSection: React.FC<KioskSectionProps> = ({ settings, onChange }) => {
+  const { t } = useI18n();
+  const [pin, setPin] = useState(settings.pin);
+  const pinValid = isValidPin(pin);
+
+  return (
+    <div>
+      <label className="block text-sm text-cyan-400 mb-2 font-mono uppercase tracking-widest">{t.kiosk.title}</label>
+      <p className="text-xs text-white/50 mb-4">{t.kiosk.hint}</p>
+
+      <span className="block text-[10px] text-white/50 font-mono uppercase mb-1">{t.kiosk.pin}</span>
+      <input
+          type="password"
+          inputMode="numeric"
+          autoComplete="off"
+          maxLength={8}
+          value={pin}
+          onChange={(e) => {
+              const next = e.target.value.replace(/\D/g, '');
+              setPin(next);
+              // Kiosk mode never stays on behind a PIN nobody could type
+              if (isValidPin(next)) onChange({ ...settings, pin: next });
+              else if (settings.enabled) onChange({ ...settings, enabled: false });
+          }}
+          placeholder="••••"
+          className="w-full bg-zinc-900/50 border border-white/20 rounded-xl px-4 py-3 mb-1 text-white font-mono tracking-[0.5em] focus:outline-none focus:border-cyan-500"
+      />
+      <p className={`text-[10px] font-mono mb-3 ${pinValid || pin === '' ? 'text-white/40' : 'text-red-300/80'}`}>{t.kiosk.pinHint}</p>
+
+      <button
+          onClick={() => onChange({ ...settings, pin, enabled: !settings.enabled })}
+          disabled={!pinValid}
+          className={`w-full mb-3 ${optionClass(settings.enabled)} disabled:opacity-40`}
+      >
+          {settings.enabled ? t.kiosk.enabled : t.kiosk.disabled}
+      </button>
+
+      <span className="block text-[10px] text-white/50 font-mono uppercase mb-1">{t.kiosk.idle}</span>
+      <div className="grid grid-cols-4 gap-2 mb-3">
+          {IDLE_TIMEOUTS.map((seconds) => (
+              <button key={seconds} onClick={() => onChange({ ...settings, idleSeconds: seconds })} className={optionClass(settings.idleSeconds === seconds)}>
+                  {formatSeconds(seconds)}
+              </button>
+          ))}
+      </div>
+
+      <span className="block text-[10px] text-white/50 font-mono uppercase mb-1">{t.kiosk.resultReset}</span>
+      <div className="grid grid-cols-3 gap-2">
+          {RESULT_TIMEOUTS.map((seconds) => (
+              <button key={seconds} onClick={() => onChange({ ...settings, resultSeconds: seconds })} className={optionClass(settings.resultSeconds === seconds)}>
+                  {formatSeconds(seconds)}
+              </button>
+          ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,25 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { LOCALES } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+export const LanguageSwitcher: React.FC = () => {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <div className="flex items-center gap-1 px-2 py-1 bg-black/40 backdrop-blur-md rounded-full border border-white/10" role="group" aria-label={t.common.language}>
+      <Languages size={14} className="text-white/40 mx-1" />
+      {LOCALES.map((code) => (
+          <button
+              key={code}
+              onClick={() => setLocale(code)}
+              className={`px-2 py-1 text-[10px] font-mono uppercase tracking-widest rounded-full transition-colors ${
+                  locale === code ? 'bg-white text-black' : 'text-white/50 hover:text-white'
+              }`}
+          >
+              {code}
+          </button>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+import React from 'react';
+import { LiveScanSettings } from './useLiveScan';
+import { useI18n } from './I18nProvider';
+
+interface LiveScanSectionProps {
+  settings: LiveScanSettings;
+  onChange: (settings: LiveScanSettings) => void;
+}
+
+// Labels come from the 'liveScan' messages under the same key
+const NUMBER_FIELDS: { key: Exclude<keyof LiveScanSettings, 'enabled'>; min: number; max: number }[] = [
+  { key: 'changeThreshold', min: 4, max: 40 },
+  { key: 'holdSeconds', min: 1, max: 10 },
+  { key: 'cooldownSeconds', min: 5, max: 300 },
+  { key: 'sessionBudget', min: 1, max: 100 },
+];
+
+// Ajustes del modo "escaneo en vivo" dentro de la Calibración de Lente
+export const LiveScanSection: React.FC<LiveScanSectionProps> = ({ settings, onChange }) => {
+  const { t } = useI18n();
+
+  return (
+    <div>
+      <label className="block text-sm text-cyan-400 mb-2 font-mono uppercase tracking-widest">{t.liveScan.title}</label>
+      <p className="text-xs text-white/50 mb-4">{t.liveScan.hint}</p>
+
+      <button
+          onClick={() => onChange({ ...settings, enabled: !settings.enabled })}
+          className={`w-full py-3 px-3 mb-4 rounded-lg text-sm font-bold transition-all border ${
+              settings.enabled
+              ? 'bg-cyan-500/30 border-cyan-400 text-cyan-300 shadow-[0_0_15px_rgba(6,182,212,0.3)]'
+              : 'bg-zinc-800/50 border-white/5 text-white/40 hover:bg-white/10 hover:text-white'
+          }`}
+      >
+          {settings.enabled ? t.liveScan.enabled : t.liveScan.disabled}
+      </button>
+
+      <div className="grid grid-cols-2 gap-3">
+          {NUMBER_FIELDS.map(({ key, min, max }) => (
+              <label key={key} className="block">
+                  <span className="block text-[10px] text-white/50 font-mono uppercase mb-1">{t.liveScan[key]}</span>
+                  <input
+                      type="number"
+                      min={min}
+                      max={max}
+                      value={settings[key]}
+                      disabled={!settings.enabled}
+                      onChange={(e) => onChange({ ...settings, [key]: Math.min(max, Math.max(min, Number(e.target.value) || min)) })}
+                      className="w-full bg-zinc-900/50 border border-white/20 rounded-lg p-2 text-white text-sm font-mono focus:outline-none focus:border-cyan-500 disabled:opacity-40"
+                  />
+              </label>
+          ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+import React from 'react';
+import { Narration, NarrationSettings } from './useNarration';
+import { useI18n } from './I18nProvider';
+
+interface NarrationSectionProps {
+  settings: NarrationSettings;
+  narration: Narration;
+  onChange: (settings: NarrationSettings) => void;
+}
+
+const optionClass = (selected: boolean) =>
+  `py-3 px-3 rounded-lg text-sm font-bold text-left truncate transition-all border ${
+    selected
+    ? 'bg-cyan-500/30 border-cyan-400 text-cyan-300 shadow-[0_0_15px_rgba(6,182,212,0.3)]'
+    : 'bg-zinc-800/50 border-white/5 text-white/40 hover:bg-white/10 hover:text-white'
+  }`;
+
+// Narración por voz dentro de la Calibración de Lente
+export const NarrationSection: React.FC<NarrationSectionProps> = ({ settings, narration, onChange }) => {
+  const { t } = useI18n();
+
+  if (!narration.supported) {
+    return (
+      <div>
+        <label className="block text-sm text-cyan-400 mb-2 font-mono uppercase tracking-widest">{t.narration.title}</label>
+        <p className="text-xs text-white/50">{t.narration.unsupported}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <label className="block text-sm text-cyan-400 mb-2 font-mono uppercase tracking-widest">{t.narration.title}</label>
+      <p className="text-xs text-white/50 mb-4">{t.narration.hint}</p>
+
+      <button
+          onClick={() => onChange({ ...settings, autoplay: !settings.autoplay })}
+          className={`w-full mb-3 text-center ${optionClass(settings.autoplay)}`}
+      >
+          {settings.autoplay ? t.narration.autoplayOn : t.narration.autoplayOff}
+      </button>
+
+      <span className="block text-[10px] text-white/50 font-mono uppercase mb-1">{t.narration.voice}</span>
+      <div className="grid grid-cols-1 gap-2 max-h-48 overflow-y-auto">
+          <button onClick={() => onChange({ ...settings, voiceURI: null })} className={optionClass(settings.voiceURI === null)}>
+              {t.narration.autoVoice}
+          </button>
+          {narration.voices.map((voice) => (
+              <button
+                  key={voice.voiceURI}
+                  onClick={() => onChange({ ...settings, voiceURI: voice.voiceURI })}
+                  className={optionClass(settings.voiceURI === voice.voiceURI)}
+              >
+                  {voice.name}{voice.localService ? '' : ` · ${t.narration.online}`}
+              </button>
+          ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { Lock, X } from 'lucide-react';
+import { useI18n } from './I18nProvider';
+
+interface PinPromptProps {
+  pin: string;
+  onUnlock: () => void;
+  onCancel: () => void;
+}
+
+// Candado de la Calibración de Lente en modo quiosco
+export const PinPrompt: React.FC<PinPromptProps> = ({ pin, onUnlock, onCancel }) => {
+  const { t } = useI18n();
+  const [value, setValue] = useState('');
+  const [wrong, setWrong] = useState(false);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (value === pin) {
+      onUnlock();
+      return;
+    }
+    setWrong(true);
+    setValue('');
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black/95 backdrop-blur-xl p-6 flex items-center justify-center animate-[fade-in_0.2s_ease-out]">
+      <form onSubmit={handleSubmit} className="w-full max-w-xs text-center">
+          <div className="flex justify-end mb-2">
+              <button type="button" onClick={onCancel} className="text-white/50 hover:text-white">
+                  <X size={24} />
+              </button>
+          </div>
+          <Lock className="mx-auto text-cyan-400 mb-3" size={32} />
+          <h2 className="text-lg font-bold text-white mb-4">{t.kiosk.locked}</h2>
+          <input
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              autoFocus
+              maxLength={8}
+              value={value}
+              onChange={(e) => {
+                  setValue(e.target.value.replace(/\D/g, ''));
+                  setWrong(false);
+              }}
+              className="w-full bg-zinc-900/50 border border-white/20 rounded-xl px-4 py-3 mb-2 text-center text-white text-xl font-mono tracking-[0.5em] focus:outline-none focus:border-cyan-500"
+          />
+          <p className="h-4 text-xs text-red-300/80 font-mono mb-4">{wrong && t.kiosk.wrongPin}</p>
+          <button
+              type="submit"
+              disabled={value.length === 0}
+              className="w-full py-3 bg-white text-black font-bold rounded-xl hover:bg-cyan-50 transition-colors disabled:opacity-40"
+          >
+              {t.kiosk.unlock}
+          </button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import React from 'react';
+import { BYTE_BUDGETS, ImageFormat, MAX_DIMENSIONS, PreprocessSettings, formatBytes, isFaceDetectionSupported, isWebpSupported } from '../services/preprocess';
+import { useI18n } from './I18nProvider';
+
+interface PreprocessSectionProps {
+  settings: PreprocessSettings;
+  onChange: (settings: PreprocessSettings) => void;
+}
+
+const optionClass = (selected: boolean) =>
+  `py-2 px-2 rounded-lg text-xs font-bold transition-all border disabled:opacity-30 disabled:cursor-not-allowed ${
+    selected
+    ? 'bg-cyan-500/30 border-cyan-400 text-cyan-300 shadow-[0_0_15px_rgba(6,182,212,0.3)]'
+    : 'bg-zinc-800/50 border-white/5 text-white/40 hover:bg-white/10 hover:text-white'
+  }`;
+
+// Tamaño y privacidad de la imagen enviada, dentro de la Calibración de Lente
+export const PreprocessSection: React.FC<PreprocessSectionProps> = ({ settings, onChange }) => {
+  const { t } = useI18n();
+  const faceDetection = isFaceDetectionSupported();
+
+  return (
+    <div>
+      <label className="block text-sm text-cyan-400 mb-2 font-mono uppercase tracking-widest">{t.preprocess.title}</label>
+      <p className="text-xs text-white/50 mb-4">{t.preprocess.hint}</p>
+
+      <span className="block text-[10px] text-white/50 font-mono uppercase mb-1">{t.preprocess.maxDimension}</span>
+      <div className="grid grid-cols-4 gap-2 mb-3">
+          {MAX_DIMENSIONS.map((dimension) => (
+              <button key={dimension} onClick={() => onChange({ ...settings, maxDimension: dimension })} className={optionClass(settings.maxDimension === dimension)}>
+                  {dimension}px
+              </button>
+          ))}
+      </div>
+
+      <span className="block text-[10px] text-white/50 font-mono uppercase mb-1">{t.preprocess.byteBudget}</span>
+      <div className="grid grid-cols-4 gap-2 mb-3">
+          {BYTE_BUDGETS.map((budget) => (
+              <button key={budget} onClick={() => onChange({ ...settings, byteBudget: budget })} className={optionClass(settings.byteBudget === budget)}>
+                  {formatBytes(budget)}
+              </button>
+          ))}
+      </div>
+
+      <span className="block text-[10px] text-white/50 font-mono uppercase mb-1">{t.preprocess.format}</span>
+      <div className="grid grid-cols-2 gap-2 mb-3">
+          {(['jpeg', 'webp'] as ImageFormat[]).map((format) => (
+              <button
+                  key={format}
+                  onClick={() => onChange({ ...settings, format })}
+                  disabled={format === 'webp' && !isWebpSupported()}
+                  className={optionClass(settings.format === format)}
+              >
+                  {format.toUpperCase()}
+              </button>
+          ))}
+      </div>
+
+      <button
+          onClick={() => onChange({ ...settings, blurFaces: !settings.blurFaces })}
+          disabled={!faceDetection}
+          className={`w-full ${optionClass(settings.blurFaces && faceDetection)}`}
+      >
+          {settings.blurFaces && faceDetection ? t.preprocess.blurFacesOn : t.preprocess.blurFacesOff}
+      </button>
+      {!faceDetection && <p className="text-[10px] text-white/40 mt-2">{t.preprocess.blurFacesUnsupported}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,92 @@
+import React, { useRef, useState } from 'react';
+import { Download, Upload, Trash2, CopyPlus } from 'lucide-react';
+import { CalibrationPreset } from '../services/presets';
+import { PresetImportError } from '../services/errors';
+import { useI18n } from './I18nProvider';
+
+interface PresetSectionProps {
+  presets: CalibrationPreset[];
+  activePreset: CalibrationPreset;
+  modified: boolean;
+  onSelect: (id: string) => void;
+  onSaveAs: (name: string) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => Promise<CalibrationPreset[]>;
+  onExport: () => void;
+}
+
+// Selector y gestión de presets dentro de la Calibración de Lente
+export const PresetSection: React.FC<PresetSectionProps> = ({
+  presets, activePreset, modified, onSelect, onSaveAs, onDelete, onImport, onExport,
+}) => {
+  const { t } = useI18n();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleSaveAs = () => {
+    const name = window.prompt(t.presets.saveAsPrompt, t.presets.copyOf(activePreset.name));
+    if (name?.trim()) onSaveAs(name.trim());
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(t.presets.confirmDelete(activePreset.name))) onDelete(activePreset.id);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = await onImport(file);
+      setMessage(t.presets.imported(imported.length));
+    } catch (err) {
+      if (!(err instanceof PresetImportError)) throw err;
+      setMessage({
+        'invalid-json': t.presets.invalidJson,
+        'no-presets': t.presets.noPresets,
+        'none-valid': t.presets.noneValid,
+      }[err.reason]);
+    }
+  };
+
+  const iconButton = "p-3 rounded-lg border border-white/10 bg-zinc-800/50 text-white/60 hover:bg-white/10 hover:text-white transition-colors disabled:opacity-30 disabled:pointer-events-none";
+
+  return (
+    <div>
+      <label className="block text-sm text-cyan-400 mb-2 font-mono uppercase tracking-widest">{t.presets.saved}</label>
+      <div className="flex gap-2">
+          <select
+              value={activePreset.id}
+              onChange={(e) => onSelect(e.target.value)}
+              className="flex-1 min-w-0 bg-zinc-900/50 border border-white/20 rounded-lg p-3 text-white text-sm font-mono focus:outline-none focus:border-cyan-500"
+          >
+              {presets.map((preset) => (
+                  <option key={preset.id} value={preset.id}>
+                      {preset.name}{preset.builtIn ? ' ★' : ''}
+                  </option>
+              ))}
+          </select>
+          <button onClick={handleSaveAs} className={iconButton} title={t.presets.saveAs}>
+              <CopyPlus size={18} />
+          </button>
+          <button onClick={handleDelete} disabled={!!activePreset.builtIn} className={iconButton} title={t.common.delete}>
+              <Trash2 size={18} />
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} className={iconButton} title={t.presets.import}>
+              <Upload size={18} />
+          </button>
+          <button onClick={onExport} className={iconButton} title={t.presets.export}>
+              <Download size={18} />
+          </button>
+      </div>
+      <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+
+      {modified && (
+          <p className="text-xs text-amber-400/80 mt-2 font-mono">
+              {t.presets.unsaved}{activePreset.builtIn ? t.presets.unsavedBuiltIn : ''}
+          </p>
+      )}
+      {message && <p className="text-xs text-white/50 mt-2 font-mono">{message}</p>}
+    </div>
+  );
+};
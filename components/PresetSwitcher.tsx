@@ -0,0 +1,44 @@
+import React, { useState } from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { CalibrationPreset } from '../services/presets';
+
+interface PresetSwitcherProps {
+  presets: CalibrationPreset[];
+  activePreset: CalibrationPreset;
+  onSelect: (id: string) => void;
+}
+
+// Cambio rápido de calibración desde el HUD del escáner
+export const PresetSwitcher: React.FC<PresetSwitcherProps> = ({ presets, activePreset, onSelect }) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      {open && (
+          <div className="absolute bottom-full right-0 mb-2 w-48 bg-black/80 backdrop-blur-md border border-cyan-500/30 rounded-xl overflow-hidden">
+              {presets.map((preset) => (
+                  <button
+                      key={preset.id}
+                      onClick={() => {
+                          onSelect(preset.id);
+                          setOpen(false);
+                      }}
+                      className={`block w-full text-left px-3 py-2 text-xs font-mono truncate transition-colors ${
+                          preset.id === activePreset.id ? 'text-cyan-300 bg-cyan-500/20' : 'text-white/60 hover:bg-white/10 hover:text-white'
+                      }`}
+                  >
+                      {preset.name}
+                  </button>
+              ))}
+          </div>
+      )}
+      <button
+          onClick={() => setOpen(!open)}
+          className="px-3 py-2 bg-black/60 backdrop-blur-md rounded-full text-[10px] font-mono uppercase tracking-widest text-cyan-400 border border-cyan-500/30 flex items-center gap-2 max-w-[11rem]"
+      >
+          <SlidersHorizontal size={12} className="shrink-0" />
+          <span className="truncate">{activePreset.name}</span>
+      </button>
+    </div>
+  );
+};
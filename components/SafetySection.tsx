@@ -0,0 +1,39 @@
+import React, { useState } from 'react';
+import { DEFAULT_DENYLIST, loadDenylist, parseDenylist, saveDenylist } from '../services/safety';
+import { useI18n } from './I18nProvider';
+
+// Lista local de términos prohibidos dentro de la Calibración de Lente
+export const SafetySection: React.FC = () => {
+  const { t } = useI18n();
+  const [text, setText] = useState(() => loadDenylist().join('\n'));
+
+  // Saved when the field loses focus, normalized as the filter will read it
+  const commit = (value: string) => {
+    const terms = parseDenylist(value);
+    saveDenylist(terms);
+    setText(terms.join('\n'));
+  };
+
+  return (
+    <div>
+      <label className="block text-sm text-cyan-400 mb-2 font-mono uppercase tracking-widest">{t.safety.title}</label>
+      <p className="text-xs text-white/50 mb-4">{t.safety.hint}</p>
+      <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onBlur={(e) => commit(e.target.value)}
+          placeholder={t.safety.placeholder}
+          className="w-full h-32 bg-zinc-900/50 border border-white/20 rounded-xl p-4 text-white text-sm font-mono focus:outline-none focus:border-cyan-500 resize-none"
+      />
+      <div className="flex items-center justify-between mt-2 text-xs text-white/50 font-mono">
+          <span>{t.safety.count(parseDenylist(text).length)}</span>
+          <button
+              onClick={() => commit(DEFAULT_DENYLIST.join('\n'))}
+              className="px-3 py-1 border border-white/20 rounded hover:bg-white/10 hover:text-white transition-colors"
+          >
+              {t.safety.restore}
+          </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import { Share2, Download, Loader2, X } from 'lucide-react';
+import { ScanResult } from '../types';
+import { renderShareCard, shareCard } from '../services/shareCard';
+import { RARITY_HEX } from './rarity';
+import { useI18n } from './I18nProvider';
+
+interface ShareSheetProps {
+  result: ScanResult;
+  initialIndex?: number;
+  onClose: () => void;
+}
+
+export const ShareSheet: React.FC<ShareSheetProps> = ({ result, initialIndex = 0, onClose }) => {
+  const { locale, t } = useI18n();
+  const visualizations = result.generatedVisualizations ?? [];
+  const [selectedIndex, setSelectedIndex] = useState(Math.min(initialIndex, Math.max(visualizations.length - 1, 0)));
+  const [card, setCard] = useState<{ blob: Blob; url: string } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  // Re-render the card whenever the chosen visualization changes
+  useEffect(() => {
+    let cancelled = false;
+    let url: string | null = null;
+    setCard(null);
+
+    renderShareCard(result, {
+      visualization: visualizations[selectedIndex],
+      accentColor: result.entity ? RARITY_HEX[result.entity.rarity] ?? '#ffffff' : '#ffffff',
+      locale,
+    })
+      .then((blob) => {
+        if (cancelled) return;
+        url = URL.createObjectURL(blob);
+        setCard({ blob, url });
+      })
+      .catch((err) => {
+        console.error(err);
+        if (!cancelled) setStatus(t.share.renderError);
+      });
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [result, selectedIndex, locale]);
+
+  const handleShare = async () => {
+    if (!card) return;
+    setBusy(true);
+    try {
+      const title = result.entity?.title ?? t.entity.anomaly;
+      const outcome = await shareCard(card.blob, title, t.share.shareText(title));
+      setStatus(outcome === 'shared' ? t.share.shared : t.share.downloaded);
+    } catch (err) {
+      // AbortError = el usuario cerró el diálogo de compartir
+      if ((err as Error).name !== 'AbortError') {
+        console.error(err);
+        setStatus(t.share.shareError);
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black/95 backdrop-blur-xl p-6 flex flex-col animate-[fade-in_0.2s_ease-out]">
+        <div className="flex justify-between items-center mb-4">
+            <h2 className="text-xl font-bold text-white flex items-center gap-2">
+                <Share2 className="text-cyan-400" size={20}/> {t.share.title}
+            </h2>
+            <button onClick={onClose} className="text-white/50 hover:text-white">
+                <X size={24} />
+            </button>
+        </div>
+
+        {/* Card preview */}
+        <div className="flex-1 min-h-0 flex items-center justify-center mb-4">
+            {card ? (
+                <img src={card.url} alt={t.share.preview} className="max-h-full max-w-full rounded-xl border border-white/10 shadow-2xl" />
+            ) : (
+                <Loader2 className="animate-spin text-white/30" size={48} />
+            )}
+        </div>
+
+        {/* Visualization picker */}
+        {visualizations.length > 1 && (
+            <div className="flex gap-2 justify-center mb-4">
+                {visualizations.map((imgUrl, index) => (
+                    <button
+                        key={index}
+                        onClick={() => setSelectedIndex(index)}
+                        className={`w-14 h-14 rounded-lg overflow-hidden border-2 transition-colors ${selectedIndex === index ? 'border-cyan-400' : 'border-white/10 opacity-60 hover:opacity-100'}`}
+                    >
+                        <img src={imgUrl} alt={t.entity.visualization(index + 1)} className="w-full h-full object-cover" />
+                    </button>
+                ))}
+            </div>
+        )}
+
+        {status && <p className="text-center text-xs text-white/50 font-mono mb-3">{status}</p>}
+
+        <button
+            onClick={handleShare}
+            disabled={!card || busy}
+            className="w-full py-4 bg-cyan-600 hover:bg-cyan-500 disabled:opacity-50 text-white font-bold rounded-xl flex items-center justify-center gap-2 transition-colors shadow-[0_0_20px_rgba(8,145,178,0.4)]"
+        >
+            {busy ? <Loader2 className="animate-spin" size={18} /> : typeof navigator.canShare === 'function' ? <Share2 size={18} /> : <Download size={18} />}
+            {typeof navigator.canShare === 'function' ? t.share.share : t.share.download}
+        </button>
+    </div>
+  );
+};
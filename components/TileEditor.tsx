@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { Wand2, RefreshCw, Copy, Loader2, X, History } from 'lucide-react';
+import { AspectRatio, VisualizationVersion } from '../types';
+import { aspectRatioValue } from '../services/generation';
+import { useI18n } from './I18nProvider';
+
+interface TileEditorProps {
+  imageUrl: string;
+  history: VisualizationVersion[];
+  aspectRatio: AspectRatio;
+  busy: boolean;
+  error: string | null;
+  onRegenerate: () => void;
+  onVariations: () => void;
+  onRefine: (instruction: string) => void;
+  onSelectVersion: (url: string) => void;
+  onClose: () => void;
+}
+
+export const TileEditor: React.FC<TileEditorProps> = ({
+  imageUrl,
+  history,
+  aspectRatio,
+  busy,
+  error,
+  onRegenerate,
+  onVariations,
+  onRefine,
+  onSelectVersion,
+  onClose,
+}) => {
+  const { t } = useI18n();
+  const [instruction, setInstruction] = useState('');
+
+  const handleRefine = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!instruction.trim() || busy) return;
+    onRefine(instruction.trim());
+    setInstruction('');
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black/95 backdrop-blur-xl p-6 flex flex-col animate-[fade-in_0.2s_ease-out]">
+        <div className="flex justify-between items-center mb-4">
+            <h2 className="text-xl font-bold text-white flex items-center gap-2">
+                <Wand2 className="text-cyan-400" size={20}/> {t.tileEditor.title}
+            </h2>
+            <button onClick={onClose} className="text-white/50 hover:text-white">
+                <X size={24} />
+            </button>
+        </div>
+
+        {/* Current version */}
+        <div className="flex-1 min-h-0 flex items-center justify-center mb-4">
+            <div className="relative max-h-full max-w-full" style={{ aspectRatio: aspectRatioValue(aspectRatio) }}>
+                <img src={imageUrl} alt={t.tileEditor.selected} className="w-full h-full object-contain rounded-xl border border-white/10 shadow-2xl" />
+                {busy && (
+                    <div className="absolute inset-0 flex items-center justify-center bg-black/50 rounded-xl">
+                        <Loader2 className="animate-spin text-cyan-400" size={48} />
+                    </div>
+                )}
+            </div>
+        </div>
+
+        {/* Edit history */}
+        {history.length > 1 && (
+            <div className="mb-4">
+                <div className="text-[10px] text-white/40 font-mono uppercase tracking-widest mb-2 flex items-center gap-1">
+                    <History size={12} /> {t.tileEditor.history}
+                </div>
+                <div className="flex gap-2 overflow-x-auto pb-1">
+                    {history.map((version, index) => (
+                        <button
+                            key={index}
+                            onClick={() => onSelectVersion(version.url)}
+                            title={version.instruction ?? t.tileEditor.actions[version.action]}
+                            className={`shrink-0 w-16 text-left transition-opacity ${version.url === imageUrl ? '' : 'opacity-50 hover:opacity-100'}`}
+                        >
+                            <img
+                                src={version.url}
+                                alt={t.tileEditor.actions[version.action]}
+                                className={`w-16 h-16 object-cover rounded-lg border-2 ${version.url === imageUrl ? 'border-cyan-400' : 'border-white/10'}`}
+                            />
+                            <span className="block mt-1 text-[9px] text-white/60 font-mono uppercase truncate">
+                                {version.instruction ?? t.tileEditor.actions[version.action]}
+                            </span>
+                        </button>
+                    ))}
+                </div>
+            </div>
+        )}
+
+        {error && <p className="text-center text-xs text-red-300/80 font-mono mb-3">{error}</p>}
+
+        <form onSubmit={handleRefine} className="flex gap-2 mb-3">
+            <input
+                type="text"
+                value={instruction}
+                onChange={(e) => setInstruction(e.target.value)}
+                maxLength={500}
+                placeholder={t.tileEditor.refinePlaceholder}
+                className="flex-1 bg-zinc-900/50 border border-white/20 rounded-xl p-3 text-white text-sm focus:outline-none focus:border-cyan-500"
+            />
+            <button
+                type="submit"
+                disabled={busy || !instruction.trim()}
+                className="px-4 bg-cyan-600 hover:bg-cyan-500 disabled:opacity-50 text-white font-bold rounded-xl flex items-center gap-2 transition-colors"
+            >
+                <Wand2 size={18} /> {t.tileEditor.refine}
+            </button>
+        </form>
+
+        <div className="flex gap-3">
+            <button
+                onClick={onRegenerate}
+                disabled={busy}
+                className="flex-1 py-3 bg-white/10 text-white font-bold rounded-xl hover:bg-white/20 disabled:opacity-50 transition-colors border border-white/10 flex items-center justify-center gap-2"
+            >
+                <RefreshCw size={18} /> {t.tileEditor.regenerate}
+            </button>
+            <button
+                onClick={onVariations}
+                disabled={busy}
+                className="flex-1 py-3 bg-white/10 text-white font-bold rounded-xl hover:bg-white/20 disabled:opacity-50 transition-colors border border-white/10 flex items-center justify-center gap-2"
+            >
+                <Copy size={18} /> {t.tileEditor.variations}
+            </button>
+        </div>
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import React, { useMemo } from 'react';
+import { DAILY_CAPS, UsageTotals, formatCost, loadUsage, sessionStart, startOfToday, summarizeUsage } from '../services/usage';
+import { useI18n } from './I18nProvider';
+
+interface UsageSectionProps {
+  dailyCap: number | null;
+  onCapChange: (cap: number | null) => void;
+}
+
+const optionClass = (selected: boolean) =>
+  `py-2 px-2 rounded-lg text-xs font-bold font-mono transition-all border ${
+    selected
+    ? 'bg-cyan-500/30 border-cyan-400 text-cyan-300 shadow-[0_0_15px_rgba(6,182,212,0.3)]'
+    : 'bg-zinc-800/50 border-white/5 text-white/40 hover:bg-white/10 hover:text-white'
+  }`;
+
+// Uso y coste estimado de las llamadas a Gemini dentro de la Calibración de Lente
+export const UsageSection: React.FC<UsageSectionProps> = ({ dailyCap, onCapChange }) => {
+  const { locale, t } = useI18n();
+  // Read once per opening of the calibration panel
+  const [session, today] = useMemo(() => {
+    const records = loadUsage();
+    return [summarizeUsage(records, sessionStart()), summarizeUsage(records, startOfToday())];
+  }, []);
+
+  const number = (value: number) => Math.round(value).toLocaleString(locale);
+  const rows: [string, (totals: UsageTotals) => string][] = [
+    [t.usage.requests, (totals) => number(totals.requests)],
+    [t.usage.failures, (totals) => number(totals.failures)],
+    [t.usage.promptTokens, (totals) => number(totals.promptTokens)],
+    [t.usage.outputTokens, (totals) => number(totals.outputTokens)],
+    [t.usage.images, (totals) => number(totals.images)],
+    [t.usage.latency, (totals) => `${number(totals.averageLatencyMs)} ms`],
+    [t.usage.cost, (totals) => formatCost(totals.cost)],
+  ];
+
+  return (
+    <div>
+      <label className="block text-sm text-cyan-400 mb-2 font-mono uppercase tracking-widest">{t.usage.title}</label>
+      <p className="text-xs text-white/50 mb-4">{t.usage.hint}</p>
+
+      <table className="w-full text-xs font-mono mb-4">
+          <thead>
+              <tr className="text-[10px] text-white/50 uppercase">
+                  <th className="text-left font-normal pb-1"></th>
+                  <th className="text-right font-normal pb-1">{t.usage.session}</th>
+                  <th className="text-right font-normal pb-1">{t.usage.today}</th>
+              </tr>
+          </thead>
+          <tbody>
+              {rows.map(([label, value]) => (
+                  <tr key={label} className="border-t border-white/5">
+                      <td className="py-1 text-white/60">{label}</td>
+                      <td className="py-1 text-right text-white">{value(session)}</td>
+                      <td className="py-1 text-right text-white">{value(today)}</td>
+                  </tr>
+              ))}
+          </tbody>
+      </table>
+
+      <span className="block text-[10px] text-white/50 font-mono uppercase mb-1">{t.usage.dailyCap}</span>
+      <div className="grid grid-cols-5 gap-2">
+          {DAILY_CAPS.map((cap) => (
+              <button key={cap ?? 'none'} onClick={() => onCapChange(cap)} className={optionClass(dailyCap === cap)}>
+                  {cap === null ? t.usage.noCap : formatCost(cap)}
+              </button>
+          ))}
+      </div>
+      {dailyCap !== null && today.cost >= dailyCap && (
+          <p className="text-xs text-red-300/80 font-mono mt-2">{t.usage.capReached}</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,61 @@
+import React from 'react';
+import { WORLD_SIZES, WorldSettings } from '../services/world';
+import { useI18n } from './I18nProvider';
+
+interface WorldSectionProps {
+  settings: WorldSettings;
+  remembered: number; // entities discovered so far in this session
+  onChange: (settings: WorldSettings) => void;
+  onForget: () => void;
+}
+
+const optionClass = (selected: boolean) =>
+  `py-3 px-3 rounded-lg text-sm font-bold transition-all border ${
+    selected
+    ? 'bg-cyan-500/30 border-cyan-400 text-cyan-300 shadow-[0_0_15px_rgba(6,182,212,0.3)]'
+    : 'bg-zinc-800/50 border-white/5 text-white/40 hover:bg-white/10 hover:text-white'
+  }`;
+
+// Modo "mundo coherente" dentro de la Calibración de Lente
+export const WorldSection: React.FC<WorldSectionProps> = ({ settings, remembered, onChange, onForget }) => {
+  const { t } = useI18n();
+
+  return (
+    <div>
+      <label className="block text-sm text-cyan-400 mb-2 font-mono uppercase tracking-widest">{t.world.title}</label>
+      <p className="text-xs text-white/50 mb-4">{t.world.hint}</p>
+
+      <button
+          onClick={() => onChange({ ...settings, enabled: !settings.enabled })}
+          className={`w-full mb-3 ${optionClass(settings.enabled)}`}
+      >
+          {settings.enabled ? t.world.enabled : t.world.disabled}
+      </button>
+
+      <span className="block text-[10px] text-white/50 font-mono uppercase mb-1">{t.world.size}</span>
+      <div className="grid grid-cols-3 gap-2 mb-3">
+          {WORLD_SIZES.map((size) => (
+              <button
+                  key={size}
+                  onClick={() => onChange({ ...settings, size })}
+                  disabled={!settings.enabled}
+                  className={`${optionClass(settings.size === size)} disabled:opacity-40`}
+              >
+                  {size}
+              </button>
+          ))}
+      </div>
+
+      <div className="flex items-center justify-between text-xs text-white/50 font-mono">
+          <span>{t.world.remembered(remembered)}</span>
+          <button
+              onClick={onForget}
+              disabled={remembered === 0}
+              className="px-3 py-1 border border-white/20 rounded hover:bg-white/10 hover:text-white transition-colors disabled:opacity-40"
+          >
+              {t.world.forget}
+          </button>
+      </div>
+    </div>
+  );
+};
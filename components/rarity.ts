@@ -0,0 +1,20 @@
+import { Rarity } from '../types';
+
+// Rarity Color Helper
+export const getRarityColor = (rarity: string) => {
+  switch (rarity) {
+    case 'common': return 'text-gray-400 border-gray-400 from-gray-500/20 to-gray-900/40';
+    case 'rare': return 'text-cyan-400 border-cyan-400 from-cyan-500/20 to-cyan-900/40';
+    case 'legendary': return 'text-amber-400 border-amber-400 from-amber-500/20 to-amber-900/40';
+    case 'artifact': return 'text-purple-400 border-purple-400 from-purple-500/20 to-purple-900/40';
+    default: return 'text-white border-white from-white/20 to-black/40';
+  }
+};
+
+// Same palette as getRarityColor, for canvas rendering
+export const RARITY_HEX: Record<Rarity, string> = {
+  common: '#9ca3af',
+  rare: '#22d3ee',
+  legendary: '#fbbf24',
+  artifact: '#c084fc',
+};
@@ -0,0 +1,216 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+
+export type CameraFacing = 'environment' | 'user';
+
+export interface ZoomRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+export interface CameraCapabilities {
+  torch: boolean;
+  zoom: ZoomRange | null;
+  focus: boolean; // tap-to-focus/exposure via pointsOfInterest
+}
+
+export interface CameraState {
+  devices: MediaDeviceInfo[];
+  deviceId: string | null;
+  facing: CameraFacing;
+  capabilities: CameraCapabilities;
+  torch: boolean;
+  zoom: number | null;
+  failed: boolean;
+}
+
+export interface CameraControls extends CameraState {
+  selectDevice: (deviceId: string) => void;
+  switchFacing: () => void;
+  setTorch: (on: boolean) => void;
+  setZoom: (zoom: number) => void;
+  focusAt: (x: number, y: number) => void; // normalized frame coordinates
+}
+
+// Image Capture extensions that lib.dom does not declare yet
+interface ExtendedCapabilities extends MediaTrackCapabilities {
+  torch?: boolean;
+  zoom?: { min: number; max: number; step?: number };
+  focusMode?: string[];
+  exposureMode?: string[];
+}
+
+interface ExtendedSettings extends MediaTrackSettings {
+  torch?: boolean;
+  zoom?: number;
+}
+
+type ExtendedConstraintSet = MediaTrackConstraintSet & {
+  torch?: boolean;
+  zoom?: number;
+  focusMode?: string;
+  exposureMode?: string;
+  pointsOfInterest?: { x: number; y: number }[];
+};
+
+interface CameraRequest {
+  deviceId?: string;
+  facing: CameraFacing;
+}
+
+const NO_CAPABILITIES: CameraCapabilities = { torch: false, zoom: null, focus: false };
+
+// Preferimos un enfoque puntual; si no existe, el continuo también respeta el punto de interés
+const POINT_MODES = ['single-shot', 'continuous'];
+
+const pickMode = (supported: string[] | undefined) => POINT_MODES.find((mode) => supported?.includes(mode));
+
+const readCapabilities = (track: MediaStreamTrack): ExtendedCapabilities =>
+  // Firefox no implementa getCapabilities
+  typeof track.getCapabilities === 'function' ? (track.getCapabilities() as ExtendedCapabilities) : {};
+
+const applyAdvanced = (track: MediaStreamTrack, set: ExtendedConstraintSet) =>
+  track.applyConstraints({ advanced: [set] });
+
+const listVideoDevices = async (): Promise<MediaDeviceInfo[]> => {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter((device) => device.kind === 'videoinput');
+};
+
+// Owns the scanner's camera stream: device/facing selection, torch, zoom and tap-to-focus.
+// Every stream it opens is stopped when it is replaced or when the component unmounts.
+export const useCamera = (videoRef: React.RefObject<HTMLVideoElement | null>): CameraControls => {
+  const [request, setRequest] = useState<CameraRequest>({ facing: 'environment' });
+  const [state, setState] = useState<CameraState>({
+    devices: [],
+    deviceId: null,
+    facing: 'environment',
+    capabilities: NO_CAPABILITIES,
+    torch: false,
+    zoom: null,
+    failed: false,
+  });
+  const trackRef = useRef<MediaStreamTrack | null>(null);
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+
+    const start = async () => {
+      try {
+        const opened = await navigator.mediaDevices.getUserMedia({
+          video: {
+            ...(request.deviceId ? { deviceId: { exact: request.deviceId } } : { facingMode: { ideal: request.facing } }),
+            width: { ideal: 1920 }, // Try to get higher res for better AI analysis
+            height: { ideal: 1080 }
+          },
+          audio: false
+        });
+        if (cancelled) {
+          opened.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        stream = opened;
+
+        const [track] = opened.getVideoTracks();
+        trackRef.current = track;
+        if (videoRef.current) {
+          videoRef.current.srcObject = opened;
+        }
+
+        const capabilities = readCapabilities(track);
+        const settings = track.getSettings() as ExtendedSettings;
+        const supported = navigator.mediaDevices.getSupportedConstraints() as MediaTrackSupportedConstraints & { pointsOfInterest?: boolean };
+        // Device labels are only available once permission was granted
+        const devices = await listVideoDevices().catch(() => [] as MediaDeviceInfo[]);
+        if (cancelled) return;
+
+        setState({
+          devices,
+          deviceId: settings.deviceId ?? request.deviceId ?? null,
+          facing: settings.facingMode === 'user' ? 'user' : settings.facingMode === 'environment' ? 'environment' : request.facing,
+          capabilities: {
+            torch: capabilities.torch === true,
+            zoom: capabilities.zoom && capabilities.zoom.max > capabilities.zoom.min
+              ? { min: capabilities.zoom.min, max: capabilities.zoom.max, step: capabilities.zoom.step || 0.1 }
+              : null,
+            focus: !!supported.pointsOfInterest && (!!pickMode(capabilities.focusMode) || !!pickMode(capabilities.exposureMode)),
+          },
+          torch: settings.torch ?? false,
+          zoom: settings.zoom ?? null,
+          failed: false,
+        });
+      } catch (err) {
+        if (cancelled) return;
+        console.error("Camera error:", err);
+        trackRef.current = null;
+        setState((prev) => ({ ...prev, capabilities: NO_CAPABILITIES, torch: false, zoom: null, failed: true }));
+      }
+    };
+
+    start();
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach((track) => track.stop());
+      if (videoRef.current?.srcObject === stream) {
+        videoRef.current.srcObject = null;
+      }
+      trackRef.current = null;
+    };
+  }, [videoRef, request]);
+
+  // Plugging in or removing a camera updates the selector
+  useEffect(() => {
+    // Insecure origins (e.g. the dev server on the LAN) and browsers without cameras have no mediaDevices
+    if (!navigator.mediaDevices) return;
+    const refresh = () => {
+      listVideoDevices()
+        .then((devices) => setState((prev) => ({ ...prev, devices })))
+        .catch(() => {});
+    };
+    navigator.mediaDevices.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refresh);
+  }, []);
+
+  const selectDevice = useCallback((deviceId: string) => {
+    setRequest((prev) => ({ ...prev, deviceId }));
+  }, []);
+
+  const switchFacing = useCallback(() => {
+    setRequest({ facing: state.facing === 'environment' ? 'user' : 'environment' });
+  }, [state.facing]);
+
+  const setTorch = useCallback((on: boolean) => {
+    const track = trackRef.current;
+    if (!track || !state.capabilities.torch) return;
+    applyAdvanced(track, { torch: on })
+      .then(() => setState((prev) => ({ ...prev, torch: on })))
+      .catch((err) => console.warn("Torch not applied:", err));
+  }, [state.capabilities.torch]);
+
+  const setZoom = useCallback((zoom: number) => {
+    const track = trackRef.current;
+    const range = state.capabilities.zoom;
+    if (!track || !range) return;
+    const value = Math.min(range.max, Math.max(range.min, zoom));
+    // Optimista: el deslizador no debe esperar a la cámara
+    setState((prev) => ({ ...prev, zoom: value }));
+    applyAdvanced(track, { zoom: value }).catch((err) => console.warn("Zoom not applied:", err));
+  }, [state.capabilities.zoom]);
+
+  const focusAt = useCallback((x: number, y: number) => {
+    const track = trackRef.current;
+    if (!track || !state.capabilities.focus) return;
+    const capabilities = readCapabilities(track);
+    const focusMode = pickMode(capabilities.focusMode);
+    const exposureMode = pickMode(capabilities.exposureMode);
+    applyAdvanced(track, {
+      pointsOfInterest: [{ x, y }],
+      ...(focusMode ? { focusMode } : {}),
+      ...(exposureMode ? { exposureMode } : {}),
+    }).catch((err) => console.warn("Focus not applied:", err));
+  }, [state.capabilities.focus]);
+
+  return { ...state, selectDevice, switchFacing, setTorch, setZoom, focusAt };
+};
@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react';
+
+// Degrees the heading must move before re-rendering; orientation events fire ~60 times per second
+const HEADING_STEP = 5;
+
+// iOS Safari reports the compass directly; everyone else needs an absolute alpha
+type OrientationEvent = DeviceOrientationEvent & { webkitCompassHeading?: number };
+
+const readHeading = (event: OrientationEvent): number | null => {
+  if (typeof event.webkitCompassHeading === 'number') return event.webkitCompassHeading;
+  if (event.absolute && event.alpha !== null) return (360 - event.alpha) % 360;
+  return null;
+};
+
+// Current compass heading (0..360 from north), or null when there is no compass or it is disabled
+export const useCompass = (enabled: boolean): number | null => {
+  const [heading, setHeading] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!enabled || typeof window === 'undefined') {
+      setHeading(null);
+      return;
+    }
+
+    const handleOrientation = (event: Event) => {
+      const value = readHeading(event as OrientationEvent);
+      if (value === null) return;
+      const rounded = (Math.round(value / HEADING_STEP) * HEADING_STEP) % 360;
+      setHeading((prev) => (prev === rounded ? prev : rounded));
+    };
+
+    // Chrome on Android only gives north-referenced values on the "absolute" event
+    const eventName = 'ondeviceorientationabsolute' in window ? 'deviceorientationabsolute' : 'deviceorientation';
+    window.addEventListener(eventName, handleOrientation);
+    return () => window.removeEventListener(eventName, handleOrientation);
+  }, [enabled]);
+
+  return heading;
+};
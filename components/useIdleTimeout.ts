@@ -0,0 +1,25 @@
+import { useEffect, useRef } from 'react';
+
+// Any of these counts as someone using the device
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel'] as const;
+
+// Calls onIdle once timeoutMs pass without interaction; null turns the timer off.
+// The timer restarts with every interaction and whenever the timeout changes.
+export const useIdleTimeout = (timeoutMs: number | null, onIdle: () => void) => {
+  const onIdleRef = useRef(onIdle);
+  onIdleRef.current = onIdle;
+
+  useEffect(() => {
+    if (timeoutMs === null) return;
+    let timeout = window.setTimeout(() => onIdleRef.current(), timeoutMs);
+    const restart = () => {
+      window.clearTimeout(timeout);
+      timeout = window.setTimeout(() => onIdleRef.current(), timeoutMs);
+    };
+    ACTIVITY_EVENTS.forEach((name) => window.addEventListener(name, restart, { passive: true }));
+    return () => {
+      window.clearTimeout(timeout);
+      ACTIVITY_EVENTS.forEach((name) => window.removeEventListener(name, restart));
+    };
+  }, [timeoutMs]);
+};
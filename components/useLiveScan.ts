@@ -0,0 +1,119 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FrameHash, computeFrameHash, hashDistance } from '../services/frameHash';
+
+export interface LiveScanSettings {
+  enabled: boolean;
+  changeThreshold: number; // bits of the 64-bit hash that must differ from the last scanned scene
+  holdSeconds: number;     // how long the new scene must stay steady before scanning
+  cooldownSeconds: number;
+  sessionBudget: number;   // maximum automatic scans per scanner session
+}
+
+export const DEFAULT_LIVE_SCAN: LiveScanSettings = {
+  enabled: false,
+  changeThreshold: 14,
+  holdSeconds: 2,
+  cooldownSeconds: 20,
+  sessionBudget: 10,
+};
+
+export type LivePhase = 'off' | 'watching' | 'settling' | 'cooldown' | 'exhausted';
+
+export interface LiveScanState {
+  phase: LivePhase;
+  scansUsed: number;
+  settleProgress: number; // 0..1 while 'settling'
+}
+
+const SAMPLE_INTERVAL_MS = 400;
+// Tolerancia entre muestras consecutivas para considerar la escena estable
+const STEADY_TOLERANCE = 6;
+
+// Samples the video and calls onTrigger when the scene changed and then held steady
+export const useLiveScan = (
+  videoRef: React.RefObject<HTMLVideoElement | null>,
+  settings: LiveScanSettings,
+  paused: boolean,
+  onTrigger: () => void
+): LiveScanState => {
+  const [state, setState] = useState<LiveScanState>({ phase: 'off', scansUsed: 0, settleProgress: 0 });
+
+  const referenceHash = useRef<FrameHash | null>(null);
+  const previousHash = useRef<FrameHash | null>(null);
+  const steadySince = useRef<number | null>(null);
+  const lastTriggerAt = useRef(0);
+  const scansUsed = useRef(0);
+  const onTriggerRef = useRef(onTrigger);
+  onTriggerRef.current = onTrigger;
+
+  useEffect(() => {
+    if (!settings.enabled) {
+      setState((prev) => ({ ...prev, phase: 'off', settleProgress: 0 }));
+      return;
+    }
+    if (paused) return;
+
+    const ctx = document.createElement('canvas').getContext('2d', { willReadFrequently: true });
+    if (!ctx) return;
+
+    // Al reanudar, la escena de referencia es la actual (p. ej. la recién escaneada)
+    referenceHash.current = null;
+    previousHash.current = null;
+    steadySince.current = null;
+
+    const sample = () => {
+      const video = videoRef.current;
+      if (!video || video.readyState < 2) return;
+
+      const now = Date.now();
+      const hash = computeFrameHash(video, ctx);
+      const previous = previousHash.current;
+      previousHash.current = hash;
+
+      if (!referenceHash.current) {
+        referenceHash.current = hash;
+        return;
+      }
+
+      if (scansUsed.current >= settings.sessionBudget) {
+        setState({ phase: 'exhausted', scansUsed: scansUsed.current, settleProgress: 0 });
+        return;
+      }
+
+      if (now - lastTriggerAt.current < settings.cooldownSeconds * 1000) {
+        setState({ phase: 'cooldown', scansUsed: scansUsed.current, settleProgress: 0 });
+        return;
+      }
+
+      const changed = hashDistance(hash, referenceHash.current) >= settings.changeThreshold;
+      const steady = previous !== null && hashDistance(hash, previous) <= STEADY_TOLERANCE;
+
+      if (!changed || !steady) {
+        steadySince.current = null;
+        setState({ phase: 'watching', scansUsed: scansUsed.current, settleProgress: 0 });
+        return;
+      }
+
+      steadySince.current ??= now;
+      const heldMs = now - steadySince.current;
+      const holdMs = settings.holdSeconds * 1000;
+
+      if (heldMs < holdMs) {
+        setState({ phase: 'settling', scansUsed: scansUsed.current, settleProgress: heldMs / holdMs });
+        return;
+      }
+
+      referenceHash.current = hash;
+      steadySince.current = null;
+      lastTriggerAt.current = now;
+      scansUsed.current++;
+      setState({ phase: 'cooldown', scansUsed: scansUsed.current, settleProgress: 0 });
+      onTriggerRef.current();
+    };
+
+    const interval = window.setInterval(sample, SAMPLE_INTERVAL_MS);
+    return () => window.clearInterval(interval);
+  }, [videoRef, settings, paused]);
+
+  return state;
+};
@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useState } from 'react';
+import { InvisibleEntity } from '../types';
+import { Locale } from '../services/i18n';
+import { VOICE_STYLES, buildNarration, isSpeechSupported, listVoices, pickVoice } from '../services/narration';
+
+export interface NarrationSettings {
+  autoplay: boolean;       // read the entity aloud as soon as it is revealed
+  voiceURI: string | null; // null = best available voice for the language
+}
+
+export const DEFAULT_NARRATION: NarrationSettings = {
+  autoplay: false,
+  voiceURI: null,
+};
+
+export type NarrationPhase = 'idle' | 'speaking' | 'paused';
+
+export interface Narration {
+  supported: boolean;
+  phase: NarrationPhase;
+  voices: SpeechSynthesisVoice[];
+  speak: (entity: InvisibleEntity) => void;
+  pause: () => void;
+  resume: () => void;
+  stop: () => void;
+}
+
+export const useNarration = (locale: Locale, settings: NarrationSettings): Narration => {
+  const supported = isSpeechSupported();
+  const [phase, setPhase] = useState<NarrationPhase>('idle');
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>(() => listVoices(locale));
+
+  // Chrome loads the voice list asynchronously
+  useEffect(() => {
+    if (!supported) return;
+    const update = () => setVoices(listVoices(locale));
+    update();
+    window.speechSynthesis.addEventListener('voiceschanged', update);
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', update);
+  }, [supported, locale]);
+
+  // Leaving the scanner must not leave the narration running
+  useEffect(() => () => {
+    if (supported) window.speechSynthesis.cancel();
+  }, [supported]);
+
+  const speak = useCallback((entity: InvisibleEntity) => {
+    if (!supported) return;
+    const synth = window.speechSynthesis;
+    synth.cancel();
+
+    const utterance = new SpeechSynthesisUtterance(buildNarration(entity, locale));
+    const style = VOICE_STYLES[entity.rarity] ?? VOICE_STYLES.common;
+    const voice = pickVoice(locale, settings.voiceURI);
+    if (voice) utterance.voice = voice;
+    utterance.lang = voice?.lang ?? locale;
+    utterance.rate = style.rate;
+    utterance.pitch = style.pitch;
+    // cancel() also fires 'end' (or 'error') on the utterance it interrupts
+    utterance.onstart = () => setPhase('speaking');
+    utterance.onend = () => setPhase('idle');
+    utterance.onerror = () => setPhase('idle');
+    synth.speak(utterance);
+  }, [supported, locale, settings.voiceURI]);
+
+  const pause = useCallback(() => {
+    if (!supported) return;
+    window.speechSynthesis.pause();
+    setPhase('paused');
+  }, [supported]);
+
+  const resume = useCallback(() => {
+    if (!supported) return;
+    window.speechSynthesis.resume();
+    setPhase('speaking');
+  }, [supported]);
+
+  const stop = useCallback(() => {
+    if (!supported) return;
+    window.speechSynthesis.cancel();
+    setPhase('idle');
+  }, [supported]);
+
+  return { supported, phase, voices, speak, pause, resume, stop };
+};
@@ -0,0 +1,70 @@
+import { useState } from 'react';
+import {
+  CalibrationPreset,
+  createPreset,
+  exportPresets,
+  getBuiltInPresets,
+  importPresets,
+  loadActivePresetId,
+  loadUserPresets,
+  saveActivePresetId,
+  saveUserPresets,
+} from '../services/presets';
+import { Locale, getMessages } from '../services/i18n';
+
+export type PresetFields = Omit<CalibrationPreset, 'id' | 'name' | 'builtIn'>;
+
+// Estado de los presets de calibración sincronizado con localStorage
+export const usePresets = (locale: Locale) => {
+  const [userPresets, setUserPresets] = useState<CalibrationPreset[]>(loadUserPresets);
+  const [activeId, setActiveId] = useState<string>(loadActivePresetId);
+
+  const builtInPresets = getBuiltInPresets(locale);
+  const messages = getMessages(locale);
+  const presets = [...builtInPresets, ...userPresets];
+  const activePreset = presets.find((preset) => preset.id === activeId) ?? builtInPresets[0];
+
+  const updateUserPresets = (next: CalibrationPreset[]) => {
+    setUserPresets(next);
+    saveUserPresets(next);
+  };
+
+  const selectPreset = (id: string): CalibrationPreset => {
+    const preset = presets.find((p) => p.id === id) ?? builtInPresets[0];
+    setActiveId(preset.id);
+    saveActivePresetId(preset.id);
+    return preset;
+  };
+
+  // Built-in presets are read-only: saving one creates a copy under a new name
+  const savePreset = (fields: PresetFields, name?: string): CalibrationPreset => {
+    if (!activePreset.builtIn && !name) {
+      const updated = { ...activePreset, ...fields };
+      updateUserPresets(userPresets.map((p) => (p.id === updated.id ? updated : p)));
+      return updated;
+    }
+
+    const created = createPreset({ ...fields, name: name ?? messages.presets.copyOf(activePreset.name) });
+    updateUserPresets([...userPresets, created]);
+    setActiveId(created.id);
+    saveActivePresetId(created.id);
+    return created;
+  };
+
+  const deletePreset = (id: string) => {
+    updateUserPresets(userPresets.filter((p) => p.id !== id));
+    if (id === activeId) selectPreset(builtInPresets[0].id);
+  };
+
+  const importFromFile = async (file: File): Promise<CalibrationPreset[]> => {
+    const imported = await importPresets(file);
+    updateUserPresets([...userPresets, ...imported]);
+    return imported;
+  };
+
+  const exportUserPresets = () => {
+    exportPresets(userPresets.length > 0 ? userPresets : [activePreset], messages.presets.exportFileName);
+  };
+
+  return { presets, activePreset, selectPreset, savePreset, deletePreset, importFromFile, exportUserPresets };
+};
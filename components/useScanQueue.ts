@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { QueuedScan, ScanResult } from '../types';
+import { listQueuedScans } from '../services/storage';
+import { processScanQueue, queueScan } from '../services/scanQueue';
+
+export interface ScanQueue {
+  online: boolean;
+  pending: number;  // frames waiting in IndexedDB
+  syncing: boolean; // the queue is being revealed right now
+  lastRevealed: ScanResult[] | null; // the latest batch revealed, a new array each time
+  enqueue: (scan: Omit<QueuedScan, 'attempts'>) => Promise<void>;
+}
+
+// A pass that leaves frames behind while online is retried after a growing delay
+const RETRY_BASE_MS = 15_000;
+const RETRY_MAX_MS = 5 * 60_000;
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine;
+
+// Tracks connectivity and reveals queued frames as soon as the network is back.
+// Mounted once by App, so the queue drains whatever screen the visitor is on.
+export const useScanQueue = (): ScanQueue => {
+  const [online, setOnline] = useState(isOnline);
+  const [pending, setPending] = useState(0);
+  const [syncing, setSyncing] = useState(false);
+  const [lastRevealed, setLastRevealed] = useState<ScanResult[] | null>(null);
+  // Bumped to start another pass over frames a previous pass could not resolve
+  const [revision, setRevision] = useState(0);
+  const failedPassesRef = useRef(0);
+
+  const refreshPending = useCallback(async () => {
+    try {
+      const count = (await listQueuedScans()).length;
+      setPending(count);
+      return count;
+    } catch {
+      setPending(0);
+      return 0;
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshPending();
+    const update = () => {
+      failedPassesRef.current = 0;
+      setOnline(isOnline());
+    };
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, [refreshPending]);
+
+  useEffect(() => {
+    if (!online || pending === 0) return;
+    const controller = new AbortController();
+    let retry: number | undefined;
+    setSyncing(true);
+    processScanQueue(controller.signal)
+      .then((revealed) => {
+        if (controller.signal.aborted) return;
+        if (revealed.length > 0) setLastRevealed(revealed);
+        failedPassesRef.current = revealed.length > 0 ? 0 : failedPassesRef.current + 1;
+      })
+      .catch((error) => {
+        console.error("Failed to process scan queue:", error);
+        failedPassesRef.current++;
+      })
+      .finally(async () => {
+        if (controller.signal.aborted) return;
+        setSyncing(false);
+        const left = await refreshPending();
+        if (controller.signal.aborted || left === 0) return;
+        const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** Math.max(0, failedPassesRef.current - 1));
+        retry = window.setTimeout(() => setRevision((n) => n + 1), delay);
+      });
+    return () => {
+      controller.abort();
+      window.clearTimeout(retry);
+      setSyncing(false);
+    };
+    // Adding frames while syncing must not restart the pass; the refresh at its end picks them up
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [online, pending > 0, revision, refreshPending]);
+
+  const enqueue = useCallback(async (scan: Omit<QueuedScan, 'attempts'>) => {
+    await queueScan(scan);
+    await refreshPending();
+  }, [refreshPending]);
+
+  return { online, pending, syncing, lastRevealed, enqueue };
+};
@@ -0,0 +1,31 @@
+import { useEffect } from 'react';
+
+// Keeps the screen on while enabled. The browser drops the lock whenever the page is hidden,
+// so it is requested again each time the page becomes visible.
+export const useWakeLock = (enabled: boolean) => {
+  useEffect(() => {
+    if (!enabled || typeof navigator === 'undefined' || !('wakeLock' in navigator)) return;
+    let sentinel: WakeLockSentinel | null = null;
+    let released = false;
+
+    const acquire = async () => {
+      if (document.visibilityState !== 'visible' || (sentinel && !sentinel.released)) return;
+      try {
+        const lock = await navigator.wakeLock.request('screen');
+        if (released) lock.release();
+        else sentinel = lock;
+      } catch (error) {
+        // Low battery or a denied permission: the kiosk keeps working, the screen may just dim
+        console.warn("Wake lock unavailable:", error);
+      }
+    };
+
+    acquire();
+    document.addEventListener('visibilitychange', acquire);
+    return () => {
+      released = true;
+      document.removeEventListener('visibilitychange', acquire);
+      sentinel?.release();
+    };
+  }, [enabled]);
+};
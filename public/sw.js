@@ -0,0 +1,60 @@
+// Service worker: caches the app shell so the scanner opens without network.
+// Scans (/api) are never cached; offline captures wait in the IndexedDB queue instead.
+
+const CACHE_NAME = 'ojo-alucinatorio-shell-v1';
+const SHELL = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg', '/icon-maskable.svg'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then((cache) => cache.addAll(SHELL))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const putInCache = async (request, response) => {
+  if (!response.ok) return;
+  const cache = await caches.open(CACHE_NAME);
+  await cache.put(request, response);
+};
+
+// The page loaded its bundles before this worker took control: it sends their URLs once ready
+self.addEventListener('message', (event) => {
+  if (event.data?.type !== 'cache-urls') return;
+  event.waitUntil(caches.open(CACHE_NAME).then((cache) => cache.addAll(event.data.urls)));
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+
+  // Pages: network first so a new deploy shows up, cached shell when offline
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          event.waitUntil(putInCache('/index.html', response.clone()));
+          return response;
+        })
+        .catch(() => caches.match('/index.html'))
+    );
+    return;
+  }
+
+  // Hashed bundles, fonts and icons: cache first, stored on first use
+  event.respondWith(
+    caches.match(request).then((cached) => cached ?? fetch(request).then((response) => {
+      event.waitUntil(putInCache(request, response.clone()));
+      return response;
+    }))
+  );
+});
@@ -0,0 +1,186 @@
+import { AddressInfo } from 'node:net';
+import { Server } from 'node:http';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createProxyServer } from './app';
+import { createRateLimiter } from './rateLimit';
+import { Upstream } from './upstream';
+import { ContentBlockedError } from '../services/errors';
+import { InvisibleEntity } from '../types';
+
+const ENTITY: InvisibleEntity = {
+  title: "Eco Residual",
+  description: "Partículas doradas sobre la mesa.",
+  visualStyle: "Luz cálida.",
+  meaning: "Memoria del lugar.",
+  estimatedAge: "40 años",
+  rarity: 'common',
+};
+
+const IMAGE = 'data:image/jpeg;base64,AAAA';
+const OPTIONS = { imageSize: '1K', aspectRatio: '1:1', variantCount: 2 };
+
+const stubUpstream = (overrides: Partial<Upstream> = {}): Upstream => ({
+  scan: vi.fn(async () => ENTITY),
+  visualize: vi.fn(async (_entity, options, _negativePrompt, _locale, _reference, onVariant) => {
+    const images = Array.from({ length: options.variantCount }, (_, i) => `data:image/png;base64,${i}`);
+    images.forEach((image, i) => onVariant?.(i, image, false));
+    return { images, blocked: 0 };
+  }),
+  composite: vi.fn(async () => null),
+  interrogate: vi.fn(async () => "Sí."),
+  ...overrides,
+});
+
+let server: Server | null = null;
+
+const start = async (upstream: Upstream, { max = 20, maxBodyBytes = 64 * 1024 } = {}) => {
+  server = createProxyServer({
+    upstream,
+    rateLimiter: createRateLimiter({ windowMs: 60_000, max }),
+    maxBodyBytes,
+  });
+  await new Promise<void>((resolve) => server!.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return (path: string, body: unknown, headers: Record<string, string> = {}) =>
+    fetch(`http://127.0.0.1:${port}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+    });
+};
+
+afterEach(async () => {
+  await new Promise((resolve) => server?.close(resolve));
+  server = null;
+});
+
+describe('proxy server', () => {
+  it('scans through the upstream', async () => {
+    const upstream = stubUpstream();
+    const post = await start(upstream);
+
+    const res = await post('/api/scan', { image: IMAGE, prompt: 'busca', locale: 'en' });
+
+    expect(res.status).toBe(200);
+    expect((await res.json()).entity).toEqual(ENTITY);
+    expect(upstream.scan).toHaveBeenCalledWith(IMAGE, 'busca', 'en', [], undefined, expect.any(AbortSignal), expect.any(Function));
+  });
+
+  it('returns every variant of a visualization', async () => {
+    const post = await start(stubUpstream());
+
+    const res = await post('/api/visualize', { entity: ENTITY, options: OPTIONS, negativePrompt: '' });
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ images: ['data:image/png;base64,0', 'data:image/png;base64,1'], blocked: 0 });
+  });
+
+  it('streams every variant of a visualization in one request', async () => {
+    const upstream = stubUpstream();
+    const post = await start(upstream, { max: 1 });
+
+    const res = await post('/api/visualize/stream', { entity: ENTITY, options: OPTIONS, negativePrompt: '' });
+    const events = (await res.text()).trim().split('\n').map((line) => JSON.parse(line));
+
+    expect(upstream.visualize).toHaveBeenCalledTimes(1);
+    expect(events).toEqual([
+      { type: 'variant', index: 0, image: 'data:image/png;base64,0', blocked: false },
+      { type: 'variant', index: 1, image: 'data:image/png;base64,1', blocked: false },
+      { type: 'result', images: ['data:image/png;base64,0', 'data:image/png;base64,1'], blocked: 0, usage: [] },
+    ]);
+  });
+
+  it('rejects invalid generation options', async () => {
+    const post = await start(stubUpstream());
+
+    const res = await post('/api/visualize', { entity: ENTITY, options: { ...OPTIONS, variantCount: 9 }, negativePrompt: '' });
+
+    expect(res.status).toBe(400);
+  });
+
+  it('rejects seeds the model cannot take', async () => {
+    const post = await start(stubUpstream());
+
+    const res = await post('/api/visualize', { entity: ENTITY, options: { ...OPTIONS, seed: 2 ** 31 }, negativePrompt: '' });
+
+    expect(res.status).toBe(400);
+  });
+
+  it('answers 404 for unknown routes', async () => {
+    const post = await start(stubUpstream());
+
+    expect((await post('/api/nothing', {})).status).toBe(404);
+  });
+
+  it('rejects uploads over the size limit', async () => {
+    const upstream = stubUpstream();
+    const post = await start(upstream, { maxBodyBytes: 1024 });
+
+    const res = await post('/api/scan', { image: `data:image/jpeg;base64,${'A'.repeat(4096)}`, prompt: '' });
+
+    expect(res.status).toBe(413);
+    expect(upstream.scan).not.toHaveBeenCalled();
+  });
+
+  it('rate-limits each client and sends Retry-After', async () => {
+    const post = await start(stubUpstream(), { max: 2 });
+    const scan = () => post('/api/scan', { image: IMAGE, prompt: '' });
+
+    expect((await scan()).status).toBe(200);
+    expect((await scan()).status).toBe(200);
+    const limited = await scan();
+
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get('retry-after'))).toBeGreaterThan(0);
+  });
+
+  it('tells apart clients forwarded by the local dev proxy', async () => {
+    const post = await start(stubUpstream(), { max: 1 });
+    const scanAs = (address: string) => post('/api/scan', { image: IMAGE, prompt: '' }, { 'X-Forwarded-For': address });
+
+    expect((await scanAs('192.168.1.10')).status).toBe(200);
+    expect((await scanAs('192.168.1.11')).status).toBe(200);
+    expect((await scanAs('192.168.1.10')).status).toBe(429);
+    // A spoofed first hop does not buy a fresh budget: only the address the proxy appended counts
+    expect((await scanAs('10.0.0.1, 192.168.1.10')).status).toBe(429);
+  });
+
+  it('answers 413 before 429 once the budget is spent', async () => {
+    const post = await start(stubUpstream(), { max: 1, maxBodyBytes: 1024 });
+
+    expect((await post('/api/scan', { image: IMAGE, prompt: '' })).status).toBe(200);
+    const res = await post('/api/scan', { image: `data:image/jpeg;base64,${'A'.repeat(4096)}`, prompt: '' });
+
+    expect(res.status).toBe(413);
+  });
+
+  it('reports content blocked by the upstream', async () => {
+    const post = await start(stubUpstream({
+      scan: vi.fn(async () => {
+        throw new ContentBlockedError('model', ['SAFETY']);
+      }),
+    }));
+
+    const res = await post('/api/scan', { image: IMAGE, prompt: '' });
+
+    expect(res.status).toBe(422);
+    expect(await res.json()).toMatchObject({ code: 'CONTENT_BLOCKED', source: 'model', reasons: ['SAFETY'] });
+  });
+
+  it('streams scan text as NDJSON events', async () => {
+    const post = await start(stubUpstream({
+      scan: vi.fn(async (_image, _prompt, _locale, _world, onText) => {
+        onText?.('{"title":', 0);
+        return ENTITY;
+      }),
+    }));
+
+    const res = await post('/api/scan/stream', { image: IMAGE, prompt: '' });
+    const events = (await res.text()).trim().split('\n').map((line) => JSON.parse(line));
+
+    expect(events).toEqual([
+      { type: 'delta', text: '{"title":', attempt: 0 },
+      { type: 'result', entity: ENTITY, usage: [] },
+    ]);
+  });
+});
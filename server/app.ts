@@ -0,0 +1,335 @@
+import { Schema } from "@google/genai";
+import { IncomingMessage, ServerResponse, createServer, Server } from "node:http";
+import { InterrogationMessage, InvisibleEntity, UsageRecord, VisualizationReference } from "../types";
+import { Upstream, UsageListener } from "./upstream";
+import { RateLimiter } from "./rateLimit";
+import { ContentBlockedError, EntityValidationError } from "../services/errors";
+import { entitySchema, validateEntity } from "../services/entity";
+import { normalizeGenerationOptions } from "../services/generation";
+import { DEFAULT_LOCALE, Locale, isLocale } from "../services/i18n";
+import { MAX_WORLD_ENTITIES } from "../services/world";
+
+export interface ProxyOptions {
+  upstream: Upstream;
+  rateLimiter: RateLimiter;
+  maxBodyBytes: number;
+}
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+};
+
+const readJsonBody = (req: IncomingMessage, maxBodyBytes: number): Promise<Record<string, unknown>> =>
+  new Promise((resolve, reject) => {
+    const declared = Number(req.headers['content-length']);
+    if (declared > maxBodyBytes) {
+      reject(new HttpError(413, "La imagen supera el tamaño máximo permitido."));
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let received = 0;
+    let tooLarge = false;
+
+    req.on('data', (chunk: Buffer) => {
+      if (tooLarge) return; // drain the rest so the 413 can still be sent
+      received += chunk.length;
+      if (received > maxBodyBytes) {
+        tooLarge = true;
+        reject(new HttpError(413, "La imagen supera el tamaño máximo permitido."));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (tooLarge) return;
+      try {
+        const body = JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+        if (!body || typeof body !== 'object') throw new Error();
+        resolve(body);
+      } catch {
+        reject(new HttpError(400, "Cuerpo JSON inválido."));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const LOOPBACK = new Set(['127.0.0.1', '::1', '::ffff:127.0.0.1']);
+
+// Browsers reach the proxy through Vite's /api forwarding, so every socket comes from localhost.
+// Only a local proxy is trusted to name the client, and only through the address it appended
+// last to X-Forwarded-For; anything earlier in the header comes from the client itself.
+const getClientId = (req: IncomingMessage) => {
+  const remote = req.socket.remoteAddress ?? 'unknown';
+  const forwarded = req.headers['x-forwarded-for'];
+  if (!LOOPBACK.has(remote) || typeof forwarded !== 'string') return remote;
+  return forwarded.split(',').pop()?.trim() || remote;
+};
+
+const requireString = (body: Record<string, unknown>, field: string): string => {
+  const value = body[field];
+  if (typeof value !== 'string') throw new HttpError(400, `Falta el campo '${field}'.`);
+  return value;
+};
+
+// Entities coming back from the client may predate the 'anchor' field
+const incomingEntitySchema: Schema = {
+  ...entitySchema,
+  required: entitySchema.required?.filter((field) => field !== 'anchor'),
+};
+
+const requireEntity = (body: Record<string, unknown>): InvisibleEntity => {
+  const { entity, issues } = validateEntity(body.entity, incomingEntitySchema);
+  if (!entity) throw new HttpError(400, `Entidad inválida: ${issues.join('; ')}`);
+  return entity;
+};
+
+// Previous entities of the session (coherent world mode); absent means an independent scan
+const readWorld = (body: Record<string, unknown>): InvisibleEntity[] => {
+  const world = body.world ?? [];
+  if (!Array.isArray(world)) throw new HttpError(400, "Mundo inválido.");
+  if (world.length > MAX_WORLD_ENTITIES) throw new HttpError(400, "Demasiadas entidades en el mundo.");
+  return world.map((entity) => requireEntity({ entity }));
+};
+
+// Older clients send no locale
+const readLocale = (body: Record<string, unknown>): Locale => {
+  if (body.locale === undefined) return DEFAULT_LOCALE;
+  if (!isLocale(body.locale)) throw new HttpError(400, `Idioma no soportado: ${String(body.locale)}`);
+  return body.locale;
+};
+
+const MAX_INSTRUCTION_LENGTH = 500;
+
+const readReference = (body: Record<string, unknown>): VisualizationReference | undefined => {
+  const reference = body.reference;
+  if (reference === undefined || reference === null) return undefined;
+  if (typeof reference !== 'object') throw new HttpError(400, "Referencia inválida.");
+
+  const { image, instruction } = reference as Record<string, unknown>;
+  if (typeof image !== 'string' || !image.startsWith('data:image/')) throw new HttpError(400, "La referencia debe incluir una imagen.");
+  if (instruction === undefined) return { image };
+  if (typeof instruction !== 'string' || !instruction.trim()) throw new HttpError(400, "La instrucción de refinado está vacía.");
+  if (instruction.length > MAX_INSTRUCTION_LENGTH) throw new HttpError(400, "La instrucción de refinado es demasiado larga.");
+  return { image, instruction: instruction.trim() };
+};
+
+const MAX_QUESTION_LENGTH = 500;
+const MAX_TRANSCRIPT_MESSAGES = 60;
+
+// The transcript must alternate user/entity turns, as Gemini expects, starting with the user
+const readTranscript = (body: Record<string, unknown>): InterrogationMessage[] => {
+  const transcript = body.transcript ?? [];
+  if (!Array.isArray(transcript)) throw new HttpError(400, "Transcripción inválida.");
+  if (transcript.length > MAX_TRANSCRIPT_MESSAGES) throw new HttpError(400, "La conversación es demasiado larga.");
+
+  return transcript.map((message, index) => {
+    const { role, text, timestamp } = (message ?? {}) as Record<string, unknown>;
+    const expected: InterrogationMessage['role'] = index % 2 === 0 ? 'user' : 'entity';
+    if (role !== expected || typeof text !== 'string') throw new HttpError(400, "Transcripción inválida.");
+    return { role: expected, text, timestamp: typeof timestamp === 'number' ? timestamp : 0 };
+  });
+};
+
+const readQuestion = (body: Record<string, unknown>): string => {
+  const question = requireString(body, 'question').trim();
+  if (!question) throw new HttpError(400, "La pregunta está vacía.");
+  if (question.length > MAX_QUESTION_LENGTH) throw new HttpError(400, "La pregunta es demasiado larga.");
+  return question;
+};
+
+type EventWriter = (event: Record<string, unknown>) => void;
+
+interface Route {
+  // Streaming routes answer with NDJSON events; `emit` is only usable there
+  streaming?: boolean;
+  // `signal` aborts when the client goes away before the response is complete;
+  // `onUsage` collects the model calls, returned to the client as `usage`
+  handle: (
+    body: Record<string, unknown>,
+    emit: EventWriter,
+    signal: AbortSignal,
+    onUsage: UsageListener
+  ) => Promise<Record<string, unknown>>;
+}
+
+const createRoutes = (upstream: Upstream): Record<string, Route> => ({
+  '/api/scan': {
+    handle: async (body, _emit, signal, onUsage) => ({
+      entity: await upstream.scan(
+        requireString(body, 'image'),
+        requireString(body, 'prompt'),
+        readLocale(body),
+        readWorld(body),
+        undefined,
+        signal,
+        onUsage
+      ),
+    }),
+  },
+
+  '/api/scan/stream': {
+    streaming: true,
+    handle: async (body, emit, signal, onUsage) => ({
+      entity: await upstream.scan(
+        requireString(body, 'image'),
+        requireString(body, 'prompt'),
+        readLocale(body),
+        readWorld(body),
+        (text, attempt) => emit({ type: 'delta', text, attempt }),
+        signal,
+        onUsage
+      ),
+    }),
+  },
+
+  '/api/visualize': {
+    handle: async (body, _emit, signal, onUsage) => {
+      const entity = requireEntity(body);
+      const options = normalizeGenerationOptions(body.options);
+      if (typeof options === 'string') throw new HttpError(400, options);
+      const { images, blocked } = await upstream.visualize(
+        entity,
+        options,
+        requireString(body, 'negativePrompt'),
+        readLocale(body),
+        readReference(body),
+        undefined,
+        signal,
+        onUsage
+      );
+      return { images, blocked };
+    },
+  },
+
+  // Every variant in one request (one rate-limit slot), each sent as soon as it settles
+  '/api/visualize/stream': {
+    streaming: true,
+    handle: async (body, emit, signal, onUsage) => {
+      const entity = requireEntity(body);
+      const options = normalizeGenerationOptions(body.options);
+      if (typeof options === 'string') throw new HttpError(400, options);
+      const { images, blocked } = await upstream.visualize(
+        entity,
+        options,
+        requireString(body, 'negativePrompt'),
+        readLocale(body),
+        readReference(body),
+        (index, image, blocked) => emit({ type: 'variant', index, image, blocked }),
+        signal,
+        onUsage
+      );
+      return { images, blocked };
+    },
+  },
+
+  '/api/composite': {
+    handle: async (body, _emit, signal, onUsage) => ({
+      image: await upstream.composite(
+        requireEntity(body),
+        requireString(body, 'image'),
+        requireString(body, 'negativePrompt'),
+        readLocale(body),
+        signal,
+        onUsage
+      ),
+    }),
+  },
+
+  '/api/interrogate': {
+    handle: async (body, _emit, signal, onUsage) => {
+      const transcript = readTranscript(body);
+      if (transcript.length % 2 !== 0) throw new HttpError(400, "La última pregunta sigue sin respuesta.");
+      return {
+        answer: await upstream.interrogate(
+          requireEntity(body),
+          requireString(body, 'image'),
+          transcript,
+          readQuestion(body),
+          readLocale(body),
+          signal,
+          onUsage
+        ),
+      };
+    },
+  },
+});
+
+const describeError = (error: unknown): { status: number; body: Record<string, unknown> } => {
+  if (error instanceof HttpError) {
+    return { status: error.status, body: { error: error.message } };
+  }
+  if (error instanceof ContentBlockedError) {
+    return { status: 422, body: { error: error.message, code: 'CONTENT_BLOCKED', source: error.source, reasons: error.reasons } };
+  }
+  if (error instanceof EntityValidationError) {
+    return { status: 502, body: { error: error.message, code: 'INVALID_ENTITY', issues: error.issues } };
+  }
+  // Gemini still rate-limiting after our retries: let the client back off as well
+  if ((error as { status?: unknown })?.status === 429) {
+    return { status: 429, body: { error: "La dimensión oculta está saturada. Espera un momento." } };
+  }
+  console.error("Upstream request failed:", error);
+  return { status: 502, body: { error: "Error al comunicar con la dimensión oculta." } };
+};
+
+export const createProxyHandler = ({ upstream, rateLimiter, maxBodyBytes }: ProxyOptions) => {
+  const routes = createRoutes(upstream);
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    const controller = new AbortController();
+    // Model calls made for this request, billed even when the request fails
+    const usage: UsageRecord[] = [];
+    const onUsage: UsageListener = (record) => usage.push(record);
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort();
+    });
+
+    try {
+      const route = req.method === 'POST' ? routes[req.url?.split('?')[0] ?? ''] : undefined;
+      if (!route) {
+        throw new HttpError(404, "Ruta desconocida.");
+      }
+
+      // Size first: an oversize upload is a 413 whatever the client's budget, and does not spend it
+      const body = await readJsonBody(req, maxBodyBytes);
+
+      const retryAfterMs = rateLimiter.consume(getClientId(req));
+      if (retryAfterMs > 0) {
+        res.setHeader('Retry-After', Math.ceil(retryAfterMs / 1000).toString());
+        throw new HttpError(429, "Demasiados escaneos. Espera un momento.");
+      }
+
+      if (!route.streaming) {
+        sendJson(res, 200, { ...(await route.handle(body, () => {}, controller.signal, onUsage)), usage });
+        return;
+      }
+
+      res.writeHead(200, { 'Content-Type': 'application/x-ndjson; charset=utf-8' });
+      const emit: EventWriter = (event) => {
+        if (!res.destroyed) res.write(`${JSON.stringify(event)}\n`);
+      };
+      try {
+        emit({ type: 'result', ...(await route.handle(body, emit, controller.signal, onUsage)), usage });
+      } catch (error) {
+        // Headers are already sent: report the failure as the last event
+        const { status, body: errorBody } = describeError(error);
+        emit({ type: 'error', status, ...errorBody, usage });
+      }
+      res.end();
+    } catch (error) {
+      if (controller.signal.aborted) return; // nobody left to answer
+      const { status, body } = describeError(error);
+      sendJson(res, status, { ...body, usage });
+    }
+  };
+};
+
+export const createProxyServer = (options: ProxyOptions): Server => createServer(createProxyHandler(options));
@@ -0,0 +1,342 @@
+import { FinishReason, GenerateContentResponse, GoogleGenAI, HarmBlockThreshold, HarmCategory, SafetySetting } from "@google/genai";
+import { GenerationOptions, ImageSize, InterrogationMessage, InvisibleEntity, UsageOperation, VisualizationReference } from "../types";
+import {
+  DEFAULT_PROMPTS,
+  INTERROGATION_SEED,
+  buildInterrogationInstruction,
+  buildCompositePrompt,
+  buildCorrectivePrompt,
+  buildReferencePrompt,
+  buildScanPrompt,
+  buildVisualizationPrompt,
+} from "../services/prompts";
+import { getEntitySchema, parseEntity } from "../services/entity";
+import { Locale } from "../services/i18n";
+import { ContentBlockedError, EntityValidationError } from "../services/errors";
+import { variantSeed } from "../services/generation";
+import { DEFAULT_RETRY, RetryOptions, withRetry } from "../services/retry";
+import { sanitizeRelation } from "../services/world";
+import { ScanTextListener, Upstream, UsageListener, VariantListener, VisualizationBatch } from "./upstream";
+
+const SCAN_MODEL = 'gemini-2.5-flash';
+// "Nano Banana"
+const IMAGE_MODEL = 'gemini-2.5-flash-image';
+// Only the Pro image model renders above 1K
+const HIGH_RES_IMAGE_MODEL = 'gemini-3-pro-image-preview';
+
+// The client retries too, so keep the proxy's own retries short
+const UPSTREAM_RETRY: RetryOptions = { ...DEFAULT_RETRY, retries: 2 };
+
+const imageModelFor = (imageSize: ImageSize) => (imageSize === '1K' ? IMAGE_MODEL : HIGH_RES_IMAGE_MODEL);
+
+// Clean base64 string
+const stripDataUrl = (base64Image: string) => base64Image.replace(/^data:image\/[a-z+.-]+;base64,/, '');
+
+const mimeTypeOf = (dataUrl: string) => /^data:(image\/[a-z+.-]+);base64,/.exec(dataUrl)?.[1] ?? 'image/jpeg';
+
+// Exhibits are open to minors: block from low probability up in every category
+const SAFETY_SETTINGS: SafetySetting[] = [
+  HarmCategory.HARM_CATEGORY_HARASSMENT,
+  HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+  HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+  HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+].map((category) => ({ category, threshold: HarmBlockThreshold.BLOCK_LOW_AND_ABOVE }));
+
+const BLOCKING_FINISH_REASONS: string[] = [
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+  FinishReason.IMAGE_SAFETY,
+  FinishReason.IMAGE_PROHIBITED_CONTENT,
+];
+
+// Why the model withheld this response, from its block reason, finish reason and safety ratings; null if it did not
+const blockOf = (response: GenerateContentResponse): ContentBlockedError | null => {
+  const candidate = response.candidates?.[0];
+  const reasons = [
+    response.promptFeedback?.blockReason,
+    candidate?.finishReason && BLOCKING_FINISH_REASONS.includes(candidate.finishReason) ? candidate.finishReason : undefined,
+    ...(candidate?.safetyRatings ?? []).filter((rating) => rating.blocked).map((rating) => rating.category),
+  ].filter((reason): reason is NonNullable<typeof reason> => !!reason).map(String);
+  return reasons.length > 0 ? new ContentBlockedError('model', reasons) : null;
+};
+
+const countImages = (response: GenerateContentResponse) =>
+  (response.candidates?.[0]?.content?.parts ?? []).filter((part) => part.inlineData).length;
+
+// Times one model call and reports its usageMetadata, or a failed record if it throws
+const tracked = async (
+  operation: UsageOperation,
+  model: string,
+  onUsage: UsageListener | undefined,
+  call: () => Promise<GenerateContentResponse>
+): Promise<GenerateContentResponse> => {
+  const timestamp = Date.now();
+  try {
+    const response = await call();
+    const usage = response.usageMetadata;
+    onUsage?.({
+      operation,
+      model,
+      promptTokens: usage?.promptTokenCount ?? 0,
+      outputTokens: (usage?.candidatesTokenCount ?? 0) + (usage?.thoughtsTokenCount ?? 0),
+      images: countImages(response),
+      latencyMs: Date.now() - timestamp,
+      success: true,
+      timestamp,
+    });
+    return response;
+  } catch (error) {
+    onUsage?.({ operation, model, promptTokens: 0, outputTokens: 0, images: 0, latencyMs: Date.now() - timestamp, success: false, timestamp });
+    throw error;
+  }
+};
+
+export const createGeminiUpstream = (apiKey: string): Upstream => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const requestEntity = async (
+    image: { data: string; mimeType: string },
+    prompt: string,
+    locale: Locale,
+    world: InvisibleEntity[],
+    onText: ((chunk: string) => void) | undefined,
+    signal: AbortSignal | undefined,
+    onUsage: UsageListener | undefined
+  ): Promise<string> => {
+    const request = {
+      model: SCAN_MODEL,
+      contents: {
+        parts: [
+          {
+            inlineData: image,
+          },
+          {
+            text: buildScanPrompt(prompt, locale, world)
+          }
+        ]
+      },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: getEntitySchema(locale),
+        temperature: 0.6,
+        safetySettings: SAFETY_SETTINGS,
+        abortSignal: signal,
+      }
+    };
+    const retry = { ...UPSTREAM_RETRY, signal };
+
+    let text = '';
+    if (onText) {
+      // Streaming: forward each chunk of the JSON as the model writes it.
+      // Only opening the stream is retried; chunks already forwarded can't be taken back.
+      // The whole stream counts as one call; its usage arrives with the last chunk.
+      let last: GenerateContentResponse | undefined;
+      await tracked('scan', SCAN_MODEL, onUsage, async () => {
+        const stream = await withRetry(() => ai.models.generateContentStream(request), retry);
+        for await (const chunk of stream) {
+          last = chunk;
+          if (!chunk.text) continue;
+          text += chunk.text;
+          onText(chunk.text);
+        }
+        return last ?? new GenerateContentResponse();
+      });
+      const blocked = last && blockOf(last);
+      if (blocked) throw blocked;
+    } else {
+      const response = await withRetry(() => tracked('scan', SCAN_MODEL, onUsage, () => ai.models.generateContent(request)), retry);
+      const blocked = blockOf(response);
+      if (blocked) throw blocked;
+      text = response.text ?? '';
+    }
+
+    if (!text) throw new Error("No hay respuesta del mundo invisible.");
+    return text;
+  };
+
+  const scan = async (
+    base64Image: string,
+    customPrompt: string,
+    locale: Locale,
+    world: InvisibleEntity[],
+    onText?: ScanTextListener,
+    signal?: AbortSignal,
+    onUsage?: UsageListener
+  ): Promise<InvisibleEntity> => {
+    // The client may send JPEG or WebP
+    const image = { data: stripDataUrl(base64Image), mimeType: mimeTypeOf(base64Image) };
+    const prompt = customPrompt || DEFAULT_PROMPTS[locale];
+
+    let validation = parseEntity(await requestEntity(image, prompt, locale, world, onText && ((chunk) => onText(chunk, 0)), signal, onUsage));
+
+    // Un único reintento indicando al modelo qué corregir
+    if (!validation.entity) {
+      console.warn("Invalid entity, retrying:", validation.issues);
+      validation = parseEntity(await requestEntity(
+        image,
+        buildCorrectivePrompt(prompt, validation.issues, locale),
+        locale,
+        world,
+        onText && ((chunk) => onText(chunk, 1)),
+        signal,
+        onUsage
+      ));
+    }
+
+    if (!validation.entity) throw new EntityValidationError(validation.issues);
+    if (validation.repairs.length > 0) console.warn("Entity repaired:", validation.repairs);
+    return sanitizeRelation(validation.entity, world);
+  };
+
+  const visualize = async (
+    entity: InvisibleEntity,
+    options: GenerationOptions,
+    negativePrompt: string,
+    locale: Locale,
+    reference?: VisualizationReference,
+    onVariant?: VariantListener,
+    signal?: AbortSignal,
+    onUsage?: UsageListener
+  ): Promise<VisualizationBatch> => {
+    // With a reference the image goes back in and the prompt describes the change
+    const parts = reference
+      ? [
+          { inlineData: { data: stripDataUrl(reference.image), mimeType: mimeTypeOf(reference.image) } },
+          { text: buildReferencePrompt(entity, negativePrompt, reference, locale) },
+        ]
+      : [{ text: buildVisualizationPrompt(entity, negativePrompt, locale) }];
+
+    // Función auxiliar para generar una sola imagen
+    const model = imageModelFor(options.imageSize);
+    const generateOne = async (variant: number) => {
+      const response = await withRetry(() => tracked('visualize', model, onUsage, () => ai.models.generateContent({
+        model,
+        contents: { parts },
+        config: {
+          imageConfig: { aspectRatio: options.aspectRatio, imageSize: options.imageSize },
+          seed: options.seed !== undefined ? variantSeed(options.seed, variant) : undefined,
+          safetySettings: SAFETY_SETTINGS,
+          abortSignal: signal,
+        }
+      })), { ...UPSTREAM_RETRY, signal });
+      const blocked = blockOf(response);
+      if (blocked) {
+        console.warn("Visualization blocked:", blocked.reasons);
+        return 'blocked';
+      }
+      if (response.candidates?.[0]?.content?.parts) {
+        for (const part of response.candidates[0].content.parts) {
+          if (part.inlineData) {
+            return `data:image/png;base64,${part.inlineData.data}`;
+          }
+        }
+      }
+      return null;
+    };
+
+    // Generar las variantes en paralelo; una variante que falla solo pierde su imagen
+    let firstError: unknown;
+    const promises = Array.from({ length: options.variantCount }, async (_, variant) => {
+      try {
+        const result = await generateOne(variant);
+        onVariant?.(variant, result === 'blocked' ? null : result, result === 'blocked');
+        return result;
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        console.error("Variant failed:", error);
+        firstError ??= error;
+        onVariant?.(variant, null, false);
+        return null;
+      }
+    });
+    const results = await Promise.all(promises);
+    // Nothing came back at all: report the failure itself (429, 5xx...) instead of an empty batch
+    if (firstError !== undefined && results.every((result) => result === null)) throw firstError;
+
+    // Filtrar nulos; las bloqueadas se cuentan para que el cliente las muestre como censuradas
+    return {
+      images: results.filter((url): url is string => url !== null && url !== 'blocked'),
+      blocked: results.filter((url) => url === 'blocked').length,
+    };
+  };
+
+  const composite = async (
+    entity: InvisibleEntity,
+    base64Image: string,
+    negativePrompt: string,
+    locale: Locale,
+    signal?: AbortSignal,
+    onUsage?: UsageListener
+  ): Promise<string | null> => {
+    const response = await withRetry(() => tracked('composite', IMAGE_MODEL, onUsage, () => ai.models.generateContent({
+      model: IMAGE_MODEL,
+      contents: {
+        parts: [
+          {
+            inlineData: {
+              data: stripDataUrl(base64Image),
+              mimeType: mimeTypeOf(base64Image),
+            },
+          },
+          { text: buildCompositePrompt(entity, negativePrompt, locale) }
+        ]
+      },
+      config: { safetySettings: SAFETY_SETTINGS, abortSignal: signal },
+    })), { ...UPSTREAM_RETRY, signal });
+    // A blocked composite is just missing: the visualizations carry the result
+    if (blockOf(response)) return null;
+    for (const part of response.candidates?.[0]?.content?.parts ?? []) {
+      if (part.inlineData) {
+        return `data:image/png;base64,${part.inlineData.data}`;
+      }
+    }
+    return null;
+  };
+
+  const interrogate = async (
+    entity: InvisibleEntity,
+    base64Image: string,
+    transcript: InterrogationMessage[],
+    question: string,
+    locale: Locale,
+    signal?: AbortSignal,
+    onUsage?: UsageListener
+  ): Promise<string> => {
+    // The proxy is stateless: every turn rebuilds the chat from the saved transcript
+    const history = [
+      {
+        role: 'user',
+        parts: [
+          { inlineData: { data: stripDataUrl(base64Image), mimeType: mimeTypeOf(base64Image) } },
+          { text: INTERROGATION_SEED[locale] },
+        ],
+      },
+      { role: 'model', parts: [{ text: JSON.stringify(entity) }] },
+      ...transcript.map((message) => ({
+        role: message.role === 'user' ? 'user' : 'model',
+        parts: [{ text: message.text }],
+      })),
+    ];
+
+    // A fresh chat per attempt so a failed send leaves no trace in the history
+    const response = await withRetry(() => tracked('interrogate', SCAN_MODEL, onUsage, () => ai.chats.create({
+      model: SCAN_MODEL,
+      history,
+      config: {
+        systemInstruction: buildInterrogationInstruction(entity, locale),
+        safetySettings: SAFETY_SETTINGS,
+        abortSignal: signal,
+      },
+    }).sendMessage({ message: question })), { ...UPSTREAM_RETRY, signal });
+    const blocked = blockOf(response);
+    if (blocked) throw blocked;
+
+    const answer = response.text?.trim();
+    if (!answer) throw new Error("La entidad guardó silencio.");
+    return answer;
+  };
+
+  return { scan, visualize, composite, interrogate };
+};
@@ -0,0 +1,27 @@
+import { loadEnv } from "vite";
+import { createProxyServer } from "./app";
+import { createGeminiUpstream } from "./gemini";
+import { createRateLimiter } from "./rateLimit";
+
+// Mismo .env.local que usa Vite; la clave nunca llega al bundle del navegador
+const env = loadEnv(process.env.NODE_ENV ?? 'development', process.cwd(), '');
+
+const apiKey = env.GEMINI_API_KEY;
+if (!apiKey) {
+  throw new Error("GEMINI_API_KEY is not set. Add it to .env.local.");
+}
+
+const port = Number(env.PROXY_PORT ?? 8787);
+
+const server = createProxyServer({
+  upstream: createGeminiUpstream(apiKey),
+  rateLimiter: createRateLimiter({
+    windowMs: 60_000,
+    max: Number(env.RATE_LIMIT_PER_MINUTE ?? 20),
+  }),
+  maxBodyBytes: Number(env.MAX_UPLOAD_BYTES ?? 8 * 1024 * 1024),
+});
+
+server.listen(port, () => {
+  console.log(`Proxy listening on http://localhost:${port}`);
+});
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { createRateLimiter } from './rateLimit';
+
+describe('createRateLimiter', () => {
+  it('allows up to max hits per window and reports the wait', () => {
+    let now = 0;
+    const limiter = createRateLimiter({ windowMs: 1000, max: 2, now: () => now });
+
+    expect(limiter.consume('a')).toBe(0);
+    now = 200;
+    expect(limiter.consume('a')).toBe(0);
+    now = 300;
+    expect(limiter.consume('a')).toBe(700);
+    now = 1000;
+    expect(limiter.consume('a')).toBe(0);
+  });
+
+  it('keeps a separate budget per client', () => {
+    const limiter = createRateLimiter({ windowMs: 1000, max: 1, now: () => 0 });
+
+    expect(limiter.consume('a')).toBe(0);
+    expect(limiter.consume('a')).toBeGreaterThan(0);
+    expect(limiter.consume('b')).toBe(0);
+  });
+
+  it('forgets idle clients', () => {
+    let now = 0;
+    const limiter = createRateLimiter({ windowMs: 1000, max: 5, now: () => now });
+    for (let i = 0; i < 50; i++) limiter.consume(`client-${i}`);
+    expect(limiter.size()).toBe(50);
+
+    now = 5000;
+    limiter.consume('latecomer');
+    expect(limiter.size()).toBe(1);
+  });
+});
@@ -0,0 +1,45 @@
+// Sliding-window rate limiter keyed by client (IP)
+
+export interface RateLimitOptions {
+  windowMs: number;
+  max: number;
+  now?: () => number;
+}
+
+export interface RateLimiter {
+  // Devuelve los ms a esperar si el cliente superó el límite, o 0 si puede continuar
+  consume: (clientId: string) => number;
+  // Clients with hits still inside the window (or not yet pruned)
+  size: () => number;
+}
+
+export const createRateLimiter = ({ windowMs, max, now = Date.now }: RateLimitOptions): RateLimiter => {
+  const hits = new Map<string, number[]>();
+  let lastPrune = now();
+
+  // Clients whose newest hit has left the window are forgotten, at most once per window
+  const prune = (current: number) => {
+    if (current - lastPrune < windowMs) return;
+    lastPrune = current;
+    for (const [clientId, times] of hits) {
+      if (current - times[times.length - 1] >= windowMs) hits.delete(clientId);
+    }
+  };
+
+  const consume = (clientId: string): number => {
+    const current = now();
+    prune(current);
+    const recent = (hits.get(clientId) ?? []).filter((time) => current - time < windowMs);
+
+    if (recent.length >= max) {
+      hits.set(clientId, recent);
+      return windowMs - (current - recent[0]);
+    }
+
+    recent.push(current);
+    hits.set(clientId, recent);
+    return 0;
+  };
+
+  return { consume, size: () => hits.size };
+};
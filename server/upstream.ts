@@ -0,0 +1,63 @@
+import { GenerationOptions, InterrogationMessage, InvisibleEntity, UsageRecord, VisualizationReference } from "../types";
+import { Locale } from "../services/i18n";
+
+// Receives raw JSON text as the model streams it; attempt 1 is the corrective retry
+export type ScanTextListener = (chunk: string, attempt: number) => void;
+
+// Visualize results; blocked variants were withheld by the model's safety filters
+export interface VisualizationBatch {
+  images: string[];
+  blocked: number;
+}
+
+// Reports each variant as soon as it settles: its image, or null when it failed or was blocked
+export type VariantListener = (index: number, image: string | null, blocked: boolean) => void;
+
+// Receives one record per model call, failed attempts included
+export type UsageListener = (record: UsageRecord) => void;
+
+// What the proxy needs from the model provider. Tests can pass a stub instead of Gemini.
+// `locale` is the language of prompts and generated text; `signal` fires when the client
+// disconnects, so the upstream call can be dropped.
+// `world` holds the session's previous entities in coherent world mode, empty otherwise.
+// `onUsage` reports every model call so the client can account for it.
+export interface Upstream {
+  scan: (
+    base64Image: string,
+    customPrompt: string,
+    locale: Locale,
+    world: InvisibleEntity[],
+    onText?: ScanTextListener,
+    signal?: AbortSignal,
+    onUsage?: UsageListener
+  ) => Promise<InvisibleEntity>;
+  visualize: (
+    entity: InvisibleEntity,
+    options: GenerationOptions,
+    negativePrompt: string,
+    locale: Locale,
+    reference?: VisualizationReference,
+    onVariant?: VariantListener,
+    signal?: AbortSignal,
+    onUsage?: UsageListener
+  ) => Promise<VisualizationBatch>;
+  // Edits the original snapshot so the entity appears inside the real scene
+  composite: (
+    entity: InvisibleEntity,
+    base64Image: string,
+    negativePrompt: string,
+    locale: Locale,
+    signal?: AbortSignal,
+    onUsage?: UsageListener
+  ) => Promise<string | null>;
+  // Answers as the entity, seeded with its record and the snapshot it was found in
+  interrogate: (
+    entity: InvisibleEntity,
+    base64Image: string,
+    transcript: InterrogationMessage[],
+    question: string,
+    locale: Locale,
+    signal?: AbortSignal,
+    onUsage?: UsageListener
+  ) => Promise<string>;
+}
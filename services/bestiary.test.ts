@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { DiscoveryRecord, computeBestiary } from './bestiary';
+
+const DAY = 86_400_000;
+const START = new Date(2026, 0, 10, 12).getTime();
+
+const record = (overrides: Partial<DiscoveryRecord>, index = 0): DiscoveryRecord => ({
+  scanId: `scan-${index}`,
+  title: `Entity ${index}`,
+  rarity: 'common',
+  timestamp: START,
+  ...overrides,
+});
+
+describe('computeBestiary', () => {
+  it('counts discoveries per rarity and excludes revisits', () => {
+    const stats = computeBestiary([
+      record({ rarity: 'artifact', timestamp: START + 1 }, 1),
+      record({ rarity: 'common' }, 0),
+      record({ rarity: 'artifact', timestamp: START + 2, revisit: true }, 2),
+    ], START);
+
+    expect(stats.scans).toBe(3);
+    expect(stats.discoveries.map((d) => d.scanId)).toEqual(['scan-1', 'scan-0']);
+    expect(stats.counts).toMatchObject({ common: 1, artifact: 1 });
+    expect(stats.unlocked['first-artifact']).toBe(START + 1);
+  });
+
+  it('tracks daily streaks', () => {
+    const records = [0, 1, 2].map((day) => record({ timestamp: START + day * DAY }, day));
+
+    expect(computeBestiary(records, START + 2 * DAY)).toMatchObject({ currentStreak: 3, bestStreak: 3 });
+    expect(computeBestiary(records, START + 5 * DAY).currentStreak).toBe(0);
+  });
+
+  it('unlocks ten scans in one place from mocked positions', () => {
+    const location = { latitude: 40.4168, longitude: -3.7038 };
+    const records = Array.from({ length: 10 }, (_, i) => record({ timestamp: START + i, location }, i));
+
+    expect(computeBestiary(records.slice(0, 9), START).unlocked['ten-in-one-place']).toBeUndefined();
+    expect(computeBestiary(records, START).unlocked['ten-in-one-place']).toBe(START + 9);
+  });
+});
@@ -0,0 +1,169 @@
+import { Rarity, ScanResult } from "../types";
+import { RARITIES } from "./rarity";
+import { GeoPoint, distanceMeters } from "./geo";
+
+// Bestiario: registro ligero de descubrimientos en localStorage. Sobrevive a borrar fotos de la galería;
+// las estadísticas y los logros se recalculan siempre a partir de este registro.
+
+export interface DiscoveryRecord {
+  scanId: string;
+  title: string;
+  rarity: Rarity;
+  timestamp: number;
+  location?: GeoPoint;
+  revisit?: boolean; // the same entity found again at its spot; counts as a scan, not a discovery
+}
+
+export type AchievementId =
+  | 'first-scan'
+  | 'first-rare'
+  | 'first-legendary'
+  | 'first-artifact'
+  | 'full-set'
+  | 'ten-in-one-place'
+  | 'streak-3'
+  | 'streak-7'
+  | 'collector-25';
+
+export const ACHIEVEMENTS: AchievementId[] = [
+  'first-scan',
+  'first-rare',
+  'first-legendary',
+  'first-artifact',
+  'full-set',
+  'ten-in-one-place',
+  'streak-3',
+  'streak-7',
+  'collector-25',
+];
+
+export interface BestiaryStats {
+  discoveries: DiscoveryRecord[]; // newest first, revisits excluded
+  scans: number;                  // revisits included
+  counts: Record<Rarity, number>;
+  firstDiscovered: Record<Rarity, number | null>;
+  currentStreak: number; // consecutive days with a scan, ending today or yesterday
+  bestStreak: number;
+  unlocked: Partial<Record<AchievementId, number>>; // when each achievement was earned
+}
+
+const BESTIARY_KEY = 'ojo-alucinatorio:bestiary';
+// Radius of "one place" for the ten-in-one-place achievement
+const PLACE_RADIUS_M = 50;
+const PLACE_SCANS = 10;
+const COLLECTOR_DISCOVERIES = 25;
+
+const isRecord = (value: unknown): value is DiscoveryRecord => {
+  const record = value as DiscoveryRecord;
+  return !!record
+    && typeof record.scanId === 'string'
+    && typeof record.title === 'string'
+    && RARITIES.includes(record.rarity)
+    && typeof record.timestamp === 'number';
+};
+
+export const loadDiscoveries = (): DiscoveryRecord[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(BESTIARY_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter(isRecord) : [];
+  } catch (error) {
+    console.error("Failed to load bestiary:", error);
+    return [];
+  }
+};
+
+const saveDiscoveries = (records: DiscoveryRecord[]) => {
+  localStorage.setItem(BESTIARY_KEY, JSON.stringify(records));
+};
+
+// Local calendar day, so a streak follows the visitor's midnight
+const dayIndex = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return Math.floor(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / 86_400_000);
+};
+
+export const computeBestiary = (records: DiscoveryRecord[], now = Date.now()): BestiaryStats => {
+  const chronological = [...records].sort((a, b) => a.timestamp - b.timestamp);
+  const counts = Object.fromEntries(RARITIES.map((rarity) => [rarity, 0])) as Record<Rarity, number>;
+  const firstDiscovered = Object.fromEntries(RARITIES.map((rarity) => [rarity, null])) as Record<Rarity, number | null>;
+  const unlocked: Partial<Record<AchievementId, number>> = {};
+  const unlock = (id: AchievementId, timestamp: number) => {
+    unlocked[id] ??= timestamp;
+  };
+
+  const located: GeoPoint[] = [];
+  let discoveries = 0;
+  let streak = 0;
+  let bestStreak = 0;
+  let lastDay: number | null = null;
+
+  // Replays the log so every achievement gets the date it was actually earned
+  for (const record of chronological) {
+    const day = dayIndex(record.timestamp);
+    if (day !== lastDay) {
+      streak = lastDay !== null && day === lastDay + 1 ? streak + 1 : 1;
+      lastDay = day;
+      bestStreak = Math.max(bestStreak, streak);
+    }
+    if (streak >= 3) unlock('streak-3', record.timestamp);
+    if (streak >= 7) unlock('streak-7', record.timestamp);
+
+    if (record.location) {
+      const here = record.location;
+      const nearby = located.filter((point) => distanceMeters(point, here) <= PLACE_RADIUS_M).length + 1;
+      if (nearby >= PLACE_SCANS) unlock('ten-in-one-place', record.timestamp);
+      located.push(here);
+    }
+
+    if (record.revisit) continue;
+    discoveries++;
+    counts[record.rarity]++;
+    firstDiscovered[record.rarity] ??= record.timestamp;
+
+    unlock('first-scan', record.timestamp);
+    if (record.rarity === 'rare') unlock('first-rare', record.timestamp);
+    if (record.rarity === 'legendary') unlock('first-legendary', record.timestamp);
+    if (record.rarity === 'artifact') unlock('first-artifact', record.timestamp);
+    if (RARITIES.every((rarity) => counts[rarity] > 0)) unlock('full-set', record.timestamp);
+    if (discoveries >= COLLECTOR_DISCOVERIES) unlock('collector-25', record.timestamp);
+  }
+
+  // A streak is still alive until the end of the day after its last scan
+  const currentStreak = lastDay !== null && dayIndex(now) - lastDay <= 1 ? streak : 0;
+
+  return {
+    discoveries: chronological.filter((record) => !record.revisit).reverse(),
+    scans: chronological.length,
+    counts,
+    firstDiscovered,
+    currentStreak,
+    bestStreak,
+    unlocked,
+  };
+};
+
+// Appends a scan to the log and returns the achievements it unlocked.
+// `timestamp` is when it was captured: a queued offline scan counts for the day it was taken.
+export const recordDiscovery = (scan: ScanResult, revisit = false, timestamp = Date.now()): AchievementId[] => {
+  if (!scan.entity) return [];
+  try {
+    const records = loadDiscoveries();
+    const before = computeBestiary(records).unlocked;
+    const record: DiscoveryRecord = {
+      scanId: scan.id,
+      title: scan.entity.title,
+      rarity: scan.entity.rarity,
+      timestamp,
+      location: scan.location && { latitude: scan.location.latitude, longitude: scan.location.longitude },
+      revisit: revisit || undefined,
+    };
+    records.push(record);
+    saveDiscoveries(records);
+    const after = computeBestiary(records).unlocked;
+    return ACHIEVEMENTS.filter((id) => after[id] !== undefined && before[id] === undefined);
+  } catch (error) {
+    // Progress is a bonus: a full or blocked localStorage must not break the scan
+    console.error("Failed to record discovery:", error);
+    return [];
+  }
+};
@@ -0,0 +1,227 @@
+import { Type, Schema } from "@google/genai";
+import { InvisibleEntity } from "../types";
+import { DEFAULT_LOCALE, Locale } from "./i18n";
+import { RARITIES, parseRarity } from "./rarity";
+
+const SCHEMA_DESCRIPTIONS: Record<Locale, Record<string, string>> = {
+  es: {
+    title: "Un nombre técnico o místico para la anomalía detectada.",
+    description: "Una descripción física precisa de la entidad y su ubicación exacta en la imagen (ej: 'flotando sobre la mesa', 'emergiendo de la sombra en la esquina').",
+    visualStyle: "Instrucciones visuales concretas (materiales, iluminación, colores).",
+    meaning: "La función o propósito de esta entidad en este lugar.",
+    estimatedAge: "Antigüedad estimada de la anomalía.",
+    rarity: "Clasificación de rareza.",
+    anchor: "Región de la imagen donde se encuentra la entidad, en coordenadas normalizadas (0 a 1, origen arriba a la izquierda).",
+    x: "Centro horizontal de la entidad.",
+    y: "Centro vertical de la entidad.",
+    width: "Ancho relativo de la región.",
+    height: "Alto relativo de la región.",
+    relatedTo: "Solo si se proporcionan entidades anteriores y esta guarda relación con una de ellas.",
+    relatedTitle: "Título exacto de la entidad anterior.",
+    relation: "Breve relación con ella (ej: 'su cría', 'se alimenta de ella', 'su forma evolucionada').",
+  },
+  en: {
+    title: "A technical or mystical name for the detected anomaly.",
+    description: "A precise physical description of the entity and its exact location in the image (e.g. 'floating above the table', 'emerging from the shadow in the corner').",
+    visualStyle: "Concrete visual instructions (materials, lighting, colors).",
+    meaning: "The function or purpose of this entity in this place.",
+    estimatedAge: "Estimated age of the anomaly.",
+    rarity: "Rarity classification.",
+    anchor: "Region of the image where the entity is, in normalized coordinates (0 to 1, origin at the top left).",
+    x: "Horizontal center of the entity.",
+    y: "Vertical center of the entity.",
+    width: "Relative width of the region.",
+    height: "Relative height of the region.",
+    relatedTo: "Only if previous entities are provided and this one is related to one of them.",
+    relatedTitle: "Exact title of the previous entity.",
+    relation: "Short relation to it (e.g. 'its offspring', 'feeds on it', 'its evolved form').",
+  },
+};
+
+// Descriptions steer the language of the generated text; structure is the same for every locale
+export const getEntitySchema = (locale: Locale): Schema => {
+  const describe = SCHEMA_DESCRIPTIONS[locale];
+  return {
+    type: Type.OBJECT,
+    properties: {
+      title: { type: Type.STRING, description: describe.title },
+      description: { type: Type.STRING, description: describe.description },
+      visualStyle: { type: Type.STRING, description: describe.visualStyle },
+      meaning: { type: Type.STRING, description: describe.meaning },
+      estimatedAge: { type: Type.STRING, description: describe.estimatedAge },
+      rarity: { 
+        type: Type.STRING, 
+        enum: RARITIES,
+        description: describe.rarity
+      },
+      anchor: {
+        type: Type.OBJECT,
+        description: describe.anchor,
+        properties: {
+          x: { type: Type.NUMBER, minimum: 0, maximum: 1, description: describe.x },
+          y: { type: Type.NUMBER, minimum: 0, maximum: 1, description: describe.y },
+          width: { type: Type.NUMBER, minimum: 0.05, maximum: 1, description: describe.width },
+          height: { type: Type.NUMBER, minimum: 0.05, maximum: 1, description: describe.height },
+        },
+        required: ["x", "y", "width", "height"],
+      },
+      relatedTo: {
+        type: Type.OBJECT,
+        description: describe.relatedTo,
+        properties: {
+          title: { type: Type.STRING, description: describe.relatedTitle },
+          relation: { type: Type.STRING, description: describe.relation },
+        },
+        required: ["title", "relation"],
+      }
+    },
+    required: ["title", "description", "visualStyle", "meaning", "estimatedAge", "rarity", "anchor"],
+  };
+};
+
+export const entitySchema: Schema = getEntitySchema(DEFAULT_LOCALE);
+
+export interface EntityValidation {
+  entity: InvisibleEntity | null; // null when issues is not empty
+  issues: string[];
+  repairs: string[];
+}
+
+// "  LEGENDARIO " y "legendario" cuentan como 'Legendario'
+const normalize = (value: string) =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+
+const coerceString = (field: string, value: unknown, issues: string[], repairs: string[]): string | undefined => {
+  if (typeof value === 'string') {
+    if (value.trim() === '') {
+      issues.push(`'${field}' está vacío`);
+      return undefined;
+    }
+    return value.trim();
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    repairs.push(`'${field}' convertido a texto`);
+    return String(value);
+  }
+  issues.push(`'${field}' debe ser texto`);
+  return undefined;
+};
+
+const coerceNumber = (field: string, value: unknown, schema: Schema, issues: string[], repairs: string[]): number | undefined => {
+  let number = typeof value === 'number' ? value : typeof value === 'string' ? Number(value.trim()) : NaN;
+  if (!Number.isFinite(number)) {
+    issues.push(`'${field}' debe ser un número`);
+    return undefined;
+  }
+  if (typeof value === 'string') repairs.push(`'${field}' convertido a número`);
+
+  // Valores ligeramente fuera de rango se recortan al límite del esquema
+  if (schema.minimum !== undefined && number < schema.minimum) {
+    repairs.push(`'${field}' ${number} → ${schema.minimum}`);
+    number = schema.minimum;
+  }
+  if (schema.maximum !== undefined && number > schema.maximum) {
+    repairs.push(`'${field}' ${number} → ${schema.maximum}`);
+    number = schema.maximum;
+  }
+  return number;
+};
+
+const coerceEnum = (field: string, text: string, options: string[], issues: string[], repairs: string[]): string | undefined => {
+  // A localized rarity label ('Legendario') stands for its key
+  const alias = parseRarity(text);
+  const match = options.find((option) => normalize(option) === normalize(text))
+    ?? (alias && options.includes(alias) ? alias : undefined);
+  if (!match) {
+    issues.push(`'${field}' = "${text}" no es uno de: ${options.join(', ')}`);
+    return undefined;
+  }
+  if (match !== text) repairs.push(`'${field}' "${text}" → "${match}"`);
+  return match;
+};
+
+const validateObject = (
+  path: string,
+  value: unknown,
+  schema: Schema,
+  issues: string[],
+  repairs: string[]
+): Record<string, unknown> | undefined => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    issues.push(path ? `'${path}' debe ser un objeto` : "la respuesta no es un objeto JSON");
+    return undefined;
+  }
+
+  const input = value as Record<string, unknown>;
+  const output: Record<string, unknown> = {};
+
+  for (const [key, property] of Object.entries(schema.properties ?? {})) {
+    const field = path ? `${path}.${key}` : key;
+    const raw = input[key];
+    if (raw === undefined || raw === null) {
+      if (schema.required?.includes(key)) issues.push(`falta el campo '${field}'`);
+      continue;
+    }
+
+    let coerced: unknown;
+    switch (property.type) {
+      case Type.STRING: {
+        const text = coerceString(field, raw, issues, repairs);
+        coerced = text !== undefined && property.enum ? coerceEnum(field, text, property.enum, issues, repairs) : text;
+        break;
+      }
+      case Type.NUMBER:
+        coerced = coerceNumber(field, raw, property, issues, repairs);
+        break;
+      case Type.OBJECT:
+        coerced = validateObject(field, raw, property, issues, repairs);
+        break;
+      default:
+        coerced = raw;
+    }
+
+    if (coerced !== undefined) output[key] = coerced;
+  }
+
+  return output;
+};
+
+// Checks a parsed model response against entitySchema, repairing near-misses
+export const validateEntity = (value: unknown, schema: Schema = entitySchema): EntityValidation => {
+  const issues: string[] = [];
+  const repairs: string[] = [];
+  const output = validateObject('', value, schema, issues, repairs);
+
+  if (!output || issues.length > 0) return { entity: null, issues, repairs };
+  return { entity: output as unknown as InvisibleEntity, issues, repairs };
+};
+
+// Parse + validate in one step; malformed JSON is reported as an issue
+export const parseEntity = (text: string): EntityValidation => {
+  try {
+    return validateEntity(JSON.parse(text));
+  } catch {
+    return { entity: null, issues: ["la respuesta no es JSON válido"], repairs: [] };
+  }
+};
+
+// Extracts the string fields already readable from an incomplete (streaming) JSON response
+export const parsePartialEntity = (text: string): Partial<InvisibleEntity> => {
+  const partial: Record<string, string> = {};
+
+  for (const [field, property] of Object.entries(entitySchema.properties ?? {})) {
+    if (property.type !== Type.STRING) continue;
+    const match = new RegExp(`"${field}"\\s*:\\s*"((?:[^"\\\\]|\\\\.)*)`).exec(text);
+    if (!match) continue;
+
+    // Recorta un escape a medio llegar antes de decodificar
+    const raw = match[1].replace(/\\(u[0-9a-fA-F]{0,3})?$/, '');
+    try {
+      partial[field] = JSON.parse(`"${raw}"`);
+    } catch {
+      partial[field] = raw;
+    }
+  }
+
+  return partial as Partial<InvisibleEntity>;
+};
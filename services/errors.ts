@@ -0,0 +1,61 @@
+// Errores tipados que la UI puede distinguir del fallo genérico
+
+export class EntityValidationError extends Error {
+  constructor(public issues: string[]) {
+    super(`La entidad recibida no es válida: ${issues.join('; ')}`);
+    this.name = 'EntityValidationError';
+  }
+}
+
+// Respuesta HTTP fallida; status permite decidir si merece reintento
+export class RequestError extends Error {
+  constructor(message: string, public status: number, public retryAfterMs?: number) {
+    super(message);
+    this.name = 'RequestError';
+  }
+}
+
+// La llamada superó su tiempo límite
+export class RequestTimeoutError extends Error {
+  constructor(public timeoutMs: number) {
+    super(`La dimensión oculta no respondió en ${Math.round(timeoutMs / 1000)} s.`);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+// Cancelación explícita (AbortController) por parte del usuario o al desmontar
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError';
+
+// Archivo de calibraciones que no se pudo importar; la UI traduce el motivo
+export class PresetImportError extends Error {
+  constructor(public reason: 'invalid-json' | 'no-presets' | 'none-valid') {
+    super(`No se pudieron importar las calibraciones: ${reason}`);
+    this.name = 'PresetImportError';
+  }
+}
+
+// Imagen subida, soltada o pegada que no se pudo usar como escaneo
+export class ImageInputError extends Error {
+  constructor(public reason: 'unsupported' | 'unreadable') {
+    super(`No se pudo leer la imagen: ${reason}`);
+    this.name = 'ImageInputError';
+  }
+}
+
+// Contenido retenido por los filtros de Gemini ('model') o por la lista local ('denylist');
+// la UI muestra una "anomalía censurada" en lugar de un fallo
+export class ContentBlockedError extends Error {
+  constructor(public source: 'model' | 'denylist', public reasons: string[]) {
+    super(`Contenido bloqueado (${source}): ${reasons.join(', ')}`);
+    this.name = 'ContentBlockedError';
+  }
+}
+
+// El coste estimado de hoy alcanzó el tope diario configurado; no se hacen más llamadas a Gemini
+export class DailyCapReachedError extends Error {
+  constructor(public cap: number) {
+    super(`Tope diario de ${cap} USD alcanzado.`);
+    this.name = 'DailyCapReachedError';
+  }
+}
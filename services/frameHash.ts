@@ -0,0 +1,36 @@
+// Perceptual difference hash (dHash) of a video frame, cheap enough to run several times per second
+
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+// 64 bits as a boolean array: each bit says whether a pixel is brighter than its right neighbour
+export type FrameHash = boolean[];
+
+export const computeFrameHash = (source: CanvasImageSource, ctx: CanvasRenderingContext2D): FrameHash => {
+  ctx.canvas.width = HASH_WIDTH;
+  ctx.canvas.height = HASH_HEIGHT;
+  ctx.drawImage(source, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+  const { data } = ctx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+
+  const luminance = (x: number, y: number) => {
+    const i = (y * HASH_WIDTH + x) * 4;
+    return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+  };
+
+  const hash: FrameHash = [];
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      hash.push(luminance(x, y) > luminance(x + 1, y));
+    }
+  }
+  return hash;
+};
+
+// Número de bits distintos (0 = idénticos, 64 = opuestos)
+export const hashDistance = (a: FrameHash, b: FrameHash): number => {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) distance++;
+  }
+  return distance;
+};
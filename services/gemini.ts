@@ -1,119 +1,221 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { InvisibleEntity } from "../types";
-
-// Initialize Gemini Client
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-const entitySchema: Schema = {
-  type: Type.OBJECT,
-  properties: {
-    title: { type: Type.STRING, description: "Un nombre técnico o místico para la anomalía detectada." },
-    description: { type: Type.STRING, description: "Una descripción física precisa de la entidad y su ubicación exacta en la imagen (ej: 'flotando sobre la mesa', 'emergiendo de la sombra en la esquina')." },
-    visualStyle: { type: Type.STRING, description: "Instrucciones visuales concretas (materiales, iluminación, colores)." },
-    meaning: { type: Type.STRING, description: "La función o propósito de esta entidad en este lugar." },
-    estimatedAge: { type: Type.STRING, description: "Antigüedad estimada de la anomalía." },
-    rarity: { 
-      type: Type.STRING, 
-      enum: ['Común', 'Raro', 'Legendario', 'Artefacto'],
-      description: "Clasificación de rareza."
-    }
-  },
-  required: ["title", "description", "visualStyle", "meaning", "estimatedAge", "rarity"],
-};
+import { GenerationOptions, InterrogationMessage, InvisibleEntity } from "../types";
+import { PartialEntityListener, ProviderCallOptions, ScanCallOptions, VisionProvider, VisualizeCallOptions } from "./provider";
+import { parsePartialEntity, validateEntity } from "./entity";
+import { ContentBlockedError, DailyCapReachedError, EntityValidationError, RequestError, isAbortError } from "./errors";
+import { CallOptions, DEFAULT_RETRY, withRetry, withTimeout } from "./retry";
+import { assertWithinDailyCap, recordUsage } from "./usage";
+
+// Gemini runs behind the local proxy (server/), which holds the API key
+const API_BASE = '/api';
 
-export const DEFAULT_PROMPT = `Actúa como un escáner de realidad aumentada avanzado. Tu objetivo es detectar "capas ocultas" sobre la realidad física.
-1. ANALIZA la imagen proporcionada: Identifica la geometría de la habitación, las superficies planas (mesas, suelos), la iluminación actual y los objetos visibles.
-2. GENERA una 'Entidad Invisible' que se integre FÍSICAMENTE en este entorno.
-   - Si hay una mesa, la entidad debe estar apoyada en ella.
-   - Si hay una esquina oscura, la entidad debe estar escondida allí.
-   - La iluminación de la entidad debe coincidir con la de la foto.
-3. NO inventes un escenario de fantasía aleatorio. La descripción debe sonar creíble y estar ANCLADA a lo que ves en la cámara.
-Responde ÚNICAMENTE en JSON válido según el esquema.`;
+const toRequestError = (
+  data: { error?: string; code?: string; issues?: string[]; source?: 'model' | 'denylist'; reasons?: string[] } | null,
+  status: number,
+  retryAfter?: string | null
+) => {
+  if (data?.code === 'INVALID_ENTITY') return new EntityValidationError(data.issues ?? []);
+  if (data?.code === 'CONTENT_BLOCKED') return new ContentBlockedError(data.source ?? 'model', data.reasons ?? []);
+  const retryAfterMs = retryAfter ? Number(retryAfter) * 1000 : undefined;
+  return new RequestError(data?.error ?? `Proxy error ${status}`, status, retryAfterMs);
+};
 
-export const scanForInvisibleEntity = async (base64Image: string, customPrompt: string): Promise<InvisibleEntity> => {
+// POSTs to the proxy with timeout, cancellation and retry on 429/5xx; `read` consumes the OK response
+const callProxy = async <T>(
+  path: string,
+  body: unknown,
+  options: CallOptions,
+  read: (response: Response) => Promise<T>
+): Promise<T> => {
+  assertWithinDailyCap();
+  const timeout = withTimeout(options);
   try {
-    const model = 'gemini-2.5-flash';
-    
-    // Clean base64 string
-    const cleanBase64 = base64Image.replace(/^data:image\/(png|jpeg|jpg);base64,/, '');
-
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              data: cleanBase64,
-              mimeType: 'image/jpeg',
-            },
-          },
-          {
-            text: customPrompt || DEFAULT_PROMPT
-          }
-        ]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: entitySchema,
-        temperature: 0.6,
+    return await withRetry(async () => {
+      const response = await fetch(`${API_BASE}${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal: timeout.signal,
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        recordUsage(data?.usage);
+        throw toRequestError(data, response.status, response.headers.get('Retry-After'));
+      }
+      return read(response);
+    }, { ...DEFAULT_RETRY, signal: timeout.signal });
+  } catch (error) {
+    return timeout.rethrow(error);
+  } finally {
+    timeout.dispose();
+  }
+};
+
+// Every proxy response carries the model calls it made; they are accounted before returning
+const postJson = <T>(path: string, body: unknown, options: CallOptions = {}): Promise<T> =>
+  callProxy(path, body, options, async (response) => {
+    const data = await response.json();
+    recordUsage(data?.usage);
+    return data as T;
+  });
+
+// Progress events sent by the streaming routes before their final 'result'
+type ProgressEvent =
+  | { type: 'delta'; text: string; attempt: number }
+  | { type: 'variant'; index: number; image: string | null; blocked: boolean };
+
+// Reads an NDJSON event stream from the proxy until its final 'result' event;
+// progress events in between go to `onEvent`
+const readEventStream = async <T>(response: Response, onEvent: (event: ProgressEvent) => void): Promise<T> => {
+  if (!response.body) throw new Error("La respuesta no admite transmisión.");
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) >= 0) {
+      const event = JSON.parse(buffer.slice(0, newline));
+      buffer = buffer.slice(newline + 1);
+
+      if (event.type === 'result') {
+        recordUsage(event.usage);
+        return event;
+      } else if (event.type === 'error') {
+        recordUsage(event.usage);
+        throw toRequestError(event, event.status);
       }
-    });
+      onEvent(event);
+    }
+  }
 
-    const text = response.text;
-    if (!text) throw new Error("No hay respuesta del mundo invisible.");
+  throw new Error("La transmisión terminó sin resultado.");
+};
 
-    return JSON.parse(text) as InvisibleEntity;
+// Events of /api/scan/stream: the entity JSON as it is generated
+const readScanStream = async (response: Response, onPartial: PartialEntityListener): Promise<unknown> => {
+  let text = '';
+  let attempt = 0;
+  const { entity } = await readEventStream<{ entity: unknown }>(response, (event) => {
+    if (event.type !== 'delta') return;
+    // A new attempt (corrective retry) starts the text over
+    if (event.attempt !== attempt) {
+      attempt = event.attempt;
+      text = '';
+    }
+    text += event.text;
+    onPartial(parsePartialEntity(text));
+  });
+  return entity;
+};
+
+export const scanForInvisibleEntity = async (
+  base64Image: string,
+  customPrompt: string,
+  { onPartial, locale, world, ...callOptions }: ScanCallOptions = {}
+): Promise<InvisibleEntity> => {
+  try {
+    const body = { image: base64Image, prompt: customPrompt, locale, world };
+    const entity = onPartial
+      ? await callProxy('/scan/stream', body, callOptions, (response) => readScanStream(response, onPartial))
+      : (await postJson<{ entity: InvisibleEntity }>('/scan', body, callOptions)).entity;
+
+    const validation = validateEntity(entity);
+    if (!validation.entity) throw new EntityValidationError(validation.issues);
+    return validation.entity;
 
   } catch (error) {
-    console.error("Failed to scan invisible entity:", error);
+    if (!isAbortError(error)) console.error("Failed to scan invisible entity:", error);
     throw error;
   }
 };
 
+// All variants in one streamed request (one rate-limit slot); each image is shown as soon as it arrives
 export const generateEntityVisualization = async (
   entity: InvisibleEntity, 
-  imageSize: '1K' | '2K' | '4K',
-  negativePrompt: string
+  options: GenerationOptions,
+  negativePrompt: string,
+  { onImage, reference, locale, ...callOptions }: VisualizeCallOptions = {}
 ): Promise<string[]> => {
+  // Kept in variant order whatever order they arrive in
+  const images: (string | null)[] = Array.from({ length: options.variantCount }, () => null);
+  const settled = new Set<number>();
   try {
-    // Usar "Nano Banana" (gemini-2.5-flash-image)
-    const model = 'gemini-2.5-flash-image';
-    
-    // Prompt optimizado para REALISMO INTEGRADO con soporte para Negativo
-    const prompt = `Fotografía macro realista o plano medio cinematográfico.
-    Objeto: ${entity.description}.
-    Estilo y Materiales: ${entity.visualStyle}.
-    CONTEXTO: El objeto debe parecer real, tangible y físico.
-    Iluminación: Coherente con una fotografía real (sombras, reflejos, texturas).
-    IMPORTANTE - EXCLUSIONES (NEGATIVE PROMPT): ${negativePrompt || "Ninguno"}.
-    NO generes: texto, marcos, dibujos animados, arte conceptual plano, ni nada listado en las exclusiones. Debe parecer una foto real de un fenómeno extraño.`;
-
-    // Función auxiliar para generar una sola imagen
-    const generateOne = async () => {
-      const response = await ai.models.generateContent({
-        model: model,
-        contents: { parts: [{ text: prompt }] },
-        config: { imageConfig: { aspectRatio: "1:1" } }
-      });
-      if (response.candidates?.[0]?.content?.parts) {
-        for (const part of response.candidates[0].content.parts) {
-          if (part.inlineData) {
-            return `data:image/png;base64,${part.inlineData.data}`;
-          }
-        }
-      }
-      return null;
-    };
+    const body = { entity, options, negativePrompt, locale, reference };
+    await callProxy('/visualize/stream', body, callOptions, (response) => readEventStream<{ images: string[] }>(response, (event) => {
+      if (event.type !== 'variant' || settled.has(event.index)) return;
+      settled.add(event.index);
+      images[event.index] = event.image ?? null;
+      onImage?.(event.index, event.image ?? null, !!event.blocked);
+    }));
+  } catch (error) {
+    // A cancelled scan stops everything; any other failure only loses the tiles still pending
+    if (isAbortError(error)) throw error;
+    console.error("Failed to visualize entity:", error);
+    for (let index = 0; index < options.variantCount; index++) {
+      if (!settled.has(index)) onImage?.(index, null);
+    }
+    // A reference over the upload limit or a spent daily cap fails the same way every time: the caller tells the user why
+    if (error instanceof RequestError && error.status === 413) throw error;
+    if (error instanceof DailyCapReachedError) throw error;
+  }
+  return images.filter((url): url is string => url !== null);
+};
 
-    // Generar 4 imágenes en paralelo
-    const promises = [generateOne(), generateOne(), generateOne(), generateOne()];
-    const results = await Promise.all(promises);
-    
-    // Filtrar nulos
-    return results.filter((url): url is string => url !== null);
+export const compositeEntityIntoScene = async (
+  entity: InvisibleEntity,
+  base64Image: string,
+  negativePrompt: string,
+  { locale, ...callOptions }: ProviderCallOptions = {}
+): Promise<string | null> => {
+  try {
+    const { image } = await postJson<{ image: string | null }>('/composite', {
+      entity,
+      image: base64Image,
+      negativePrompt,
+      locale,
+    }, callOptions);
+    return image;
 
   } catch (error) {
-    console.error("Failed to visualize entity:", error);
-    return [];
+    if (isAbortError(error)) throw error;
+    console.error("Failed to composite entity:", error);
+    return null;
   }
-};
\ No newline at end of file
+};
+
+export const interrogateEntity = async (
+  entity: InvisibleEntity,
+  base64Image: string,
+  transcript: InterrogationMessage[],
+  question: string,
+  { locale, ...callOptions }: ProviderCallOptions = {}
+): Promise<string> => {
+  try {
+    const { answer } = await postJson<{ answer: string }>('/interrogate', {
+      entity,
+      image: base64Image,
+      transcript,
+      question,
+      locale,
+    }, callOptions);
+    return answer;
+
+  } catch (error) {
+    if (!isAbortError(error)) console.error("Failed to interrogate entity:", error);
+    throw error;
+  }
+};
+
+export const geminiProvider: VisionProvider = {
+  id: 'gemini',
+  requiresNetwork: true,
+  scanForInvisibleEntity,
+  generateEntityVisualization,
+  compositeEntityIntoScene,
+  interrogateEntity,
+};
@@ -0,0 +1,60 @@
+import { AspectRatio, GenerationOptions, ImageSize } from "../types";
+
+export const IMAGE_SIZES: ImageSize[] = ['1K', '2K', '4K'];
+
+// Subset of the ratios supported by Gemini image generation
+export const ASPECT_RATIOS: AspectRatio[] = ['1:1', '3:4', '4:3', '9:16', '16:9'];
+
+export const MAX_VARIANTS = 4;
+
+// Gemini takes the seed as an int32; only non-negative values are used here
+export const MAX_SEED = 2 ** 31 - 1;
+
+export const isValidSeed = (seed: unknown): seed is number =>
+  Number.isInteger(seed) && (seed as number) >= 0 && (seed as number) <= MAX_SEED;
+
+export const randomSeed = () => Math.floor(Math.random() * (MAX_SEED + 1));
+
+// Variant i uses seed + i, wrapping around so a seed near the top stays in range
+export const variantSeed = (seed: number, variant: number) => (seed + variant) % (MAX_SEED + 1);
+
+export const DEFAULT_GENERATION_OPTIONS: GenerationOptions = {
+  imageSize: '1K',
+  aspectRatio: '1:1',
+  variantCount: MAX_VARIANTS,
+};
+
+export const aspectRatioValue = (ratio: AspectRatio): number => {
+  const [w, h] = ratio.split(':').map(Number);
+  return w / h;
+};
+
+// Ratio soportado más cercano al de la cámara (p. ej. 1920x1080 → 16:9)
+export const nearestAspectRatio = (width: number, height: number): AspectRatio => {
+  if (!width || !height) return DEFAULT_GENERATION_OPTIONS.aspectRatio;
+  const target = Math.log(width / height);
+  return ASPECT_RATIOS.reduce((best, ratio) =>
+    Math.abs(Math.log(aspectRatioValue(ratio)) - target) < Math.abs(Math.log(aspectRatioValue(best)) - target) ? ratio : best
+  );
+};
+
+// Validates options coming from the client; returns an error message or the normalized options
+export const normalizeGenerationOptions = (value: unknown): GenerationOptions | string => {
+  const options = value as Partial<GenerationOptions> | undefined;
+  if (!options || typeof options !== 'object') return "Faltan las opciones de generación.";
+  if (!IMAGE_SIZES.includes(options.imageSize as ImageSize)) return "Resolución no soportada.";
+  if (!ASPECT_RATIOS.includes(options.aspectRatio as AspectRatio)) return "Relación de aspecto no soportada.";
+
+  const variantCount = Number(options.variantCount);
+  if (!Number.isInteger(variantCount) || variantCount < 1 || variantCount > MAX_VARIANTS) {
+    return `El número de variantes debe estar entre 1 y ${MAX_VARIANTS}.`;
+  }
+  if (options.seed !== undefined && !isValidSeed(options.seed)) return `La semilla debe ser un número entero entre 0 y ${MAX_SEED}.`;
+
+  return {
+    imageSize: options.imageSize as ImageSize,
+    aspectRatio: options.aspectRatio as AspectRatio,
+    variantCount,
+    seed: options.seed,
+  };
+};
@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { browserGeoSource, distanceMeters, findRevisit } from './geo';
+import { GeoTag, ScanResult } from '../types';
+
+// Minimal stand-in for the Geolocation API: each test decides how getCurrentPosition answers
+const mockGeolocation = (answer: (success: PositionCallback, failure: PositionErrorCallback) => void) => {
+  const getCurrentPosition = vi.fn((success: PositionCallback, failure: PositionErrorCallback) => answer(success, failure));
+  vi.stubGlobal('navigator', { geolocation: { getCurrentPosition } });
+  return getCurrentPosition;
+};
+
+const positionError = (code: number, message: string) =>
+  ({ code, message, PERMISSION_DENIED: 1, POSITION_UNAVAILABLE: 2, TIMEOUT: 3 }) as GeolocationPositionError;
+
+const HERE: GeoTag = { latitude: 40.4168, longitude: -3.7038, accuracy: 10, heading: 90 };
+
+const scanAt = (id: string, location: GeoTag): ScanResult => ({
+  id,
+  image: 'data:image/jpeg;base64,',
+  entity: { title: id, description: '', visualStyle: '', meaning: '', estimatedAge: '', rarity: 'common' },
+  location,
+  timestamp: 0,
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('browserGeoSource', () => {
+  it('resolves the current position', async () => {
+    const getCurrentPosition = mockGeolocation((success) =>
+      success({ coords: { latitude: 40.4, longitude: -3.7, accuracy: 12 } } as GeolocationPosition)
+    );
+
+    await expect(browserGeoSource.getPosition()).resolves.toEqual({ latitude: 40.4, longitude: -3.7, accuracy: 12 });
+    expect(getCurrentPosition).toHaveBeenCalledWith(
+      expect.any(Function),
+      expect.any(Function),
+      expect.objectContaining({ enableHighAccuracy: true, timeout: expect.any(Number) })
+    );
+  });
+
+  it('rejects when the permission is denied', async () => {
+    mockGeolocation((_success, failure) => failure(positionError(1, "User denied Geolocation")));
+
+    await expect(browserGeoSource.getPosition()).rejects.toMatchObject({ code: 1 });
+  });
+
+  it('rejects when the position times out', async () => {
+    mockGeolocation((_success, failure) => failure(positionError(3, "Timeout expired")));
+
+    await expect(browserGeoSource.getPosition()).rejects.toMatchObject({ code: 3 });
+  });
+
+  it('rejects without a Geolocation API', async () => {
+    vi.stubGlobal('navigator', {});
+
+    await expect(browserGeoSource.getPosition()).rejects.toThrow();
+  });
+});
+
+describe('findRevisit', () => {
+  it('brings back the nearest scan at the same spot', () => {
+    const near = scanAt('near', { ...HERE, latitude: HERE.latitude + 0.0001 });
+    const far = scanAt('far', { ...HERE, latitude: HERE.latitude + 0.01 });
+
+    expect(distanceMeters(HERE, near.location!)).toBeLessThan(25);
+    expect(findRevisit(HERE, [far, near])).toBe(near);
+  });
+
+  it('ignores scans facing another way', () => {
+    expect(findRevisit(HERE, [scanAt('behind', { ...HERE, heading: 270 })])).toBeNull();
+  });
+
+  it('does not guess with an inaccurate fix', () => {
+    expect(findRevisit({ ...HERE, accuracy: 500 }, [scanAt('same', HERE)])).toBeNull();
+  });
+});
@@ -0,0 +1,116 @@
+import { GeoTag, ScanResult } from "../types";
+
+// Ubicación y orientación de los escaneos: entidades ancladas a un lugar real
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface GeoPosition extends GeoPoint {
+  accuracy: number;
+}
+
+// Abstraction over navigator.geolocation so another source (or a mock) can be passed in
+export interface GeoSource {
+  getPosition: () => Promise<GeoPosition>;
+}
+
+const GEO_TIMEOUT_MS = 6_000;
+// Un escaneo reciente puede reutilizar la posición en lugar de esperar otra lectura
+const GEO_MAX_AGE_MS = 30_000;
+
+export const browserGeoSource: GeoSource = {
+  getPosition: () => new Promise((resolve, reject) => {
+    if (typeof navigator === 'undefined' || !('geolocation' in navigator)) {
+      reject(new Error("Geolocalización no disponible."));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => resolve({ latitude: coords.latitude, longitude: coords.longitude, accuracy: coords.accuracy }),
+      reject,
+      { enableHighAccuracy: true, timeout: GEO_TIMEOUT_MS, maximumAge: GEO_MAX_AGE_MS }
+    );
+  }),
+};
+
+// iOS only delivers orientation events after an explicit permission prompt from a user gesture
+export const requestCompassPermission = async (): Promise<boolean> => {
+  const request = (DeviceOrientationEvent as unknown as { requestPermission?: () => Promise<PermissionState> }).requestPermission;
+  if (typeof request !== 'function') return true;
+  try {
+    return (await request()) === 'granted';
+  } catch {
+    return false;
+  }
+};
+
+const EARTH_RADIUS_M = 6_371_000;
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Haversine distance in meters
+export const distanceMeters = (a: GeoPoint, b: GeoPoint): number => {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+// Initial compass bearing from `from` to `to`, 0..360 clockwise from north
+export const bearingDegrees = (from: GeoPoint, to: GeoPoint): number => {
+  const lat1 = toRadians(from.latitude);
+  const lat2 = toRadians(to.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const y = Math.sin(dLon) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+};
+
+// Smallest angle between two headings, 0..180
+export const headingDifference = (a: number, b: number): number => {
+  const diff = Math.abs(a - b) % 360;
+  return diff > 180 ? 360 - diff : diff;
+};
+
+// Close enough to count as "the same spot"; GPS error widens it up to a limit
+const REVISIT_RADIUS_M = 25;
+const MAX_REVISIT_ACCURACY_M = 100;
+// Mirando hacia otro lado desde el mismo sitio se descubre otra entidad
+const REVISIT_MAX_HEADING_DIFF = 60;
+
+// The saved scan this position brings back, if any: nearest within range and facing the same way
+export const findRevisit = (position: GeoTag, scans: ScanResult[]): ScanResult | null => {
+  if (position.accuracy > MAX_REVISIT_ACCURACY_M) return null;
+  const radius = Math.max(REVISIT_RADIUS_M, position.accuracy);
+
+  let nearest: ScanResult | null = null;
+  let nearestDistance = Infinity;
+  for (const scan of scans) {
+    if (!scan.entity || !scan.location) continue;
+    const distance = distanceMeters(position, scan.location);
+    if (distance > radius || distance >= nearestDistance) continue;
+    if (position.heading !== null && scan.location.heading !== null
+      && headingDifference(position.heading, scan.location.heading) > REVISIT_MAX_HEADING_DIFF) continue;
+    nearest = scan;
+    nearestDistance = distance;
+  }
+  return nearest;
+};
+
+export const formatDistance = (meters: number): string =>
+  meters >= 1000 ? `${(meters / 1000).toFixed(1)} km` : `${Math.round(meters)} m`;
+
+const LOCATION_KEY = 'ojo-alucinatorio:location';
+
+// Opt-in, remembered so returning visitors keep their anchored entities
+export const loadLocationEnabled = (): boolean => {
+  try {
+    return localStorage.getItem(LOCATION_KEY) === 'on';
+  } catch {
+    return false;
+  }
+};
+
+export const saveLocationEnabled = (enabled: boolean) => {
+  localStorage.setItem(LOCATION_KEY, enabled ? 'on' : 'off');
+};
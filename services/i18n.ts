@@ -0,0 +1,42 @@
+import { es, Messages } from "./locales/es";
+import { en } from "./locales/en";
+
+// Idiomas de la interfaz, de los prompts y de las entidades generadas
+
+export type Locale = 'es' | 'en';
+
+export const LOCALES: Locale[] = ['es', 'en'];
+
+export const DEFAULT_LOCALE: Locale = 'es';
+
+const LOCALE_KEY = 'ojo-alucinatorio:locale';
+
+const MESSAGES: Record<Locale, Messages> = { es, en };
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.includes(value as Locale);
+
+export const getMessages = (locale: Locale): Messages => MESSAGES[locale];
+
+// First browser language we support, e.g. 'en-GB' → 'en'
+export const detectLocale = (): Locale => {
+  const languages = typeof navigator !== 'undefined' ? navigator.languages ?? [navigator.language] : [];
+  for (const language of languages) {
+    const base = language?.split('-')[0].toLowerCase();
+    if (isLocale(base)) return base;
+  }
+  return DEFAULT_LOCALE;
+};
+
+export const loadLocale = (): Locale => {
+  try {
+    const stored = localStorage.getItem(LOCALE_KEY);
+    if (isLocale(stored)) return stored;
+  } catch {
+    // localStorage unavailable (private mode): fall back to the browser language
+  }
+  return detectLocale();
+};
+
+export const saveLocale = (locale: Locale) => {
+  localStorage.setItem(LOCALE_KEY, locale);
+};
@@ -0,0 +1,59 @@
+import { ImageInputError } from './errors';
+import { PreparedImage, PreprocessSettings, preprocessImage } from './preprocess';
+
+// First image among the files of a picker, a drop or a paste
+export const pickImageFile = (files: FileList | null | undefined): File | null =>
+  Array.from(files ?? []).find((file) => file.type.startsWith('image/')) ?? null;
+
+// Decodes with the EXIF orientation applied, so portrait phone photos are not sideways
+const decodeImage = async (file: Blob): Promise<ImageBitmap | HTMLImageElement> => {
+  if (typeof createImageBitmap === 'function') {
+    try {
+      return await createImageBitmap(file, { imageOrientation: 'from-image' });
+    } catch {
+      // Safari antiguo rechaza las opciones; <img> también respeta la orientación EXIF
+    }
+  }
+  const url = URL.createObjectURL(file);
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    return img;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Runs a user image through the same preprocessing as a camera capture
+export const loadImageFile = async (file: Blob, settings: PreprocessSettings): Promise<PreparedImage> => {
+  if (!file.type.startsWith('image/')) throw new ImageInputError('unsupported');
+
+  let source: ImageBitmap | HTMLImageElement;
+  try {
+    source = await decodeImage(file);
+  } catch {
+    throw new ImageInputError('unreadable');
+  }
+
+  try {
+    const width = source instanceof HTMLImageElement ? source.naturalWidth : source.width;
+    const height = source instanceof HTMLImageElement ? source.naturalHeight : source.height;
+    if (!width || !height) throw new ImageInputError('unreadable');
+    return await preprocessImage(source, width, height, settings);
+  } finally {
+    if (source instanceof ImageBitmap) source.close();
+  }
+};
+
+// Generated tiles come back as 2K/4K PNGs; sent back as a reference they go through the same
+// shrinking as a capture so they fit the proxy's upload limit
+export const loadImageDataUrl = async (dataUrl: string, settings: PreprocessSettings): Promise<PreparedImage> => {
+  let blob: Blob;
+  try {
+    blob = await (await fetch(dataUrl)).blob();
+  } catch {
+    throw new ImageInputError('unreadable');
+  }
+  return loadImageFile(blob, settings);
+};
@@ -0,0 +1,45 @@
+// Modo quiosco para tabletas desatendidas en exposiciones: ajustes tras un PIN,
+// vuelta a la portada por inactividad y resultados que se limpian solos
+
+export interface KioskSettings {
+  enabled: boolean;
+  pin: string;
+  idleSeconds: number;    // without interaction before returning to the intro and its attract loop
+  resultSeconds: number;  // a finished result stays on screen this long without interaction
+}
+
+export const IDLE_TIMEOUTS = [60, 120, 300, 600];
+export const RESULT_TIMEOUTS = [20, 45, 90];
+
+export const DEFAULT_KIOSK: KioskSettings = {
+  enabled: false,
+  pin: '',
+  idleSeconds: 120,
+  resultSeconds: 45,
+};
+
+// Digits only so it can be typed on the numeric keypad of a tablet
+export const isValidPin = (pin: string) => /^\d{4,8}$/.test(pin);
+
+const KIOSK_KEY = 'ojo-alucinatorio:kiosk';
+
+// Anything unexpected falls back to the defaults, and kiosk mode is never on without a usable PIN
+export const loadKiosk = (): KioskSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(KIOSK_KEY) ?? 'null');
+    if (!stored) return DEFAULT_KIOSK;
+    const pin = typeof stored.pin === 'string' && isValidPin(stored.pin) ? stored.pin : '';
+    return {
+      enabled: stored.enabled === true && pin !== '',
+      pin,
+      idleSeconds: IDLE_TIMEOUTS.includes(stored.idleSeconds) ? stored.idleSeconds : DEFAULT_KIOSK.idleSeconds,
+      resultSeconds: RESULT_TIMEOUTS.includes(stored.resultSeconds) ? stored.resultSeconds : DEFAULT_KIOSK.resultSeconds,
+    };
+  } catch {
+    return DEFAULT_KIOSK;
+  }
+};
+
+export const saveKiosk = (settings: KioskSettings) => {
+  localStorage.setItem(KIOSK_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,327 @@
+import { Messages } from "./es";
+
+// English UI strings (same keys as es.ts)
+
+export const en: Messages = {
+  common: {
+    close: "Close",
+    delete: "Delete",
+    cancel: "Cancel",
+    language: "Language",
+  },
+
+  rarity: {
+    common: "Common",
+    rare: "Rare",
+    legendary: "Legendary",
+    artifact: "Artifact",
+  },
+
+  providers: {
+    gemini: "Gemini 2.5",
+    mock: "Local simulator",
+  },
+
+  entity: {
+    meaning: "Meaning",
+    estimatedAge: "Estimated age",
+    anomaly: "Anomaly",
+    unidentified: "Unidentified",
+    visualization: (n: number) => `Invisible Entity ${n}`,
+    snapshot: "Original snapshot",
+    snapshotLabel: "Snapshot",
+  },
+
+  intro: {
+    subtitle: "Augmented Reality Experiment",
+    tagline: "The world is full of art you cannot see. Use your device to reveal the invisible entities, structures and memories hidden in the empty spaces around you.",
+    start: "Start Scanning",
+    gallery: "Gallery",
+    about: "How does it work?",
+    bestiary: "Bestiary",
+    map: "Map",
+    poweredBy: "Powered by Google Gemini 2.5",
+  },
+
+  about: {
+    title: "How does it work?",
+    inspiration: ["Inspired by the Google Arts & Culture exhibition ", "Seeing the Invisible", ", this app simulates the experience of discovering digital artworks hidden in physical spaces."],
+    conceptTitle: "The Original Concept",
+    concept: ["Traditionally, AR exhibitions use GPS coordinates to place specific 3D works at exact locations (such as botanical gardens). Your phone acts as a window onto these pre-placed assets."],
+    experimentTitle: "This AI Experiment",
+    experiment: ["Since we are in a web browser without pre-mapped assets, this app uses ", "Generative AI (Gemini 2.5)", ". Instead of showing prefabricated art, it analyzes what your camera sees and \"hallucinates\" invisible entities based on the visual context of your surroundings."],
+    technologyTitle: "The Technology",
+    technology: ["We use the ", "MediaStream API", " for the camera and ", "Gemini 2.5 Flash", " to process the visual data and generate the story, visual description and meaning of the \"invisible\" art in real time."],
+    confirm: "Got it",
+  },
+
+  gallery: {
+    title: "Anomaly Gallery",
+    all: "All",
+    empty: "No anomalies recorded yet. Scan your surroundings to start the collection.",
+    loadError: "The anomaly archive could not be opened.",
+    deleteError: "The anomaly could not be deleted.",
+    confirmDelete: (title: string) => `Delete "${title}" from the gallery?`,
+  },
+
+  scanner: {
+    cameraError: "Cannot access the camera. Check the permissions.",
+    invalidEntity: "The anomaly arrived corrupted and could not be rebuilt. Try scanning again.",
+    timeout: "The hidden dimension took too long to answer. Try scanning again.",
+    rateLimited: "Too many scans. Wait a moment before trying again.",
+    tooLarge: "The image is too large to send. Lower the resolution under Transmission.",
+    genericError: "Error communicating with the hidden dimension.",
+    noImages: "The hidden dimension returned no image. Try again.",
+    statusSearching: "SEARCHING FOR ANOMALIES",
+    statusSettling: "NEW SCENE · STABILIZING",
+    statusCooldown: "SENSOR COOLING DOWN",
+    statusExhausted: "SESSION QUOTA EXHAUSTED",
+    statusAnalyzing: "INTERPRETING DATA...",
+    statusVisualizing: (done: number, total: number) => `GENERATING IMAGES (${done}/${total}) + ANCHORING...`,
+    decoding: "Decoding Reality...",
+    signalLost: "Signal lost",
+    gridView: "Grid",
+    arView: "AR View",
+    rescan: "Rescan",
+  },
+
+  settings: {
+    title: "Lens Calibration",
+    provider: "Vision Engine",
+    prompt: "System Prompt",
+    promptHint: "Defines how the AI interprets reality.",
+    promptPlaceholder: "Write your instructions here...",
+    negativePrompt: "Negative Prompt",
+    negativePromptHint: "Elements to EXCLUDE from the hallucination.",
+    negativePromptPlaceholder: "E.g. text, blurry, people...",
+    resolution: "Resolution (Gemini 3 Pro)",
+    aspectRatio: "Aspect Ratio",
+    cameraAspect: (ratio: string) => `Camera (${ratio})`,
+    variants: "Variants",
+    seed: "Seed",
+    seedPlaceholder: "Random",
+    save: "Save Calibration",
+    builtInCopyPrompt: "Built-in calibrations can't be modified. Name for the copy:",
+  },
+
+  presets: {
+    saved: "Saved Calibration",
+    copyOf: (name: string) => `${name} (copy)`,
+    saveAsPrompt: "Name of the new calibration:",
+    confirmDelete: (name: string) => `Delete the calibration "${name}"?`,
+    imported: (count: number) => `${count} calibration(s) imported.`,
+    saveAs: "Save as new",
+    import: "Import JSON",
+    export: "Export JSON",
+    unsaved: "Unsaved changes",
+    unsavedBuiltIn: " · they will be saved as a copy",
+    invalidJson: "The file is not valid JSON.",
+    noPresets: "The file contains no calibrations.",
+    noneValid: "None of the calibrations in the file is valid.",
+    exportFileName: "hallucinatory-eye-calibrations.json",
+  },
+
+  liveScan: {
+    title: "Live Scan",
+    hint: "Scans automatically when the scene changes and stays steady.",
+    enabled: "ON",
+    disabled: "OFF",
+    changeThreshold: "Change sensitivity (bits)",
+    holdSeconds: "Required stability (s)",
+    cooldownSeconds: "Cooldown (s)",
+    sessionBudget: "Scans per session",
+  },
+
+  camera: {
+    title: "Camera",
+    device: (n: number) => `Camera ${n}`,
+    switchFacing: "Switch camera",
+    torchOn: "Turn torch on",
+    torchOff: "Turn torch off",
+    zoom: "Zoom",
+  },
+
+  interrogation: {
+    open: "Interrogate",
+    title: (name: string) => `Interrogate · ${name}`,
+    empty: "The entity awaits your questions. Ask where it comes from, what it wants or how long it has been here.",
+    placeholder: "Ask a question...",
+    send: "Send",
+    error: "The entity did not answer. Try asking again.",
+  },
+
+  safety: {
+    title: "Content Filter",
+    hint: "Banned terms, one per line. They are checked in the prompt, the negative prompt and the text of every entity, on top of Gemini's filters.",
+    placeholder: "one term per line",
+    count: (n: number) => `${n} ${n === 1 ? 'term' : 'terms'}`,
+    restore: "Restore",
+    censoredTitle: "Censored anomaly",
+    censoredHint: "This entity is not fit to be shown here. Point somewhere else and scan again.",
+    byModel: "Withheld by the safety filters",
+    byDenylist: "Withheld by the local filter",
+    censoredTile: "Censored",
+    imageCensored: "The image was withheld by the safety filters.",
+    answerCensored: "The entity cannot answer that.",
+  },
+
+  kiosk: {
+    title: "Kiosk Mode",
+    hint: "For unattended tablets: the calibration sits behind a PIN, the screen stays on, results clear themselves and after a while without use it returns to the intro with a loop of saved entities.",
+    pin: "Admin PIN",
+    pinHint: "4 to 8 digits. Required to turn the mode on.",
+    enabled: "Kiosk on",
+    disabled: "Kiosk off",
+    idle: "Return to the intro after",
+    resultReset: "Clear the result after",
+    locked: "Calibration locked",
+    unlock: "Unlock",
+    wrongPin: "Wrong PIN",
+    touchToStart: "Touch to reveal the invisible",
+  },
+
+  usage: {
+    title: "Usage",
+    hint: "Gemini calls made through the proxy. The cost is an estimate based on list prices.",
+    session: "Session",
+    today: "Today",
+    requests: "Calls",
+    failures: "Failed",
+    promptTokens: "Input tokens",
+    outputTokens: "Output tokens",
+    images: "Images",
+    latency: "Average latency",
+    cost: "Estimated cost",
+    dailyCap: "Daily cap",
+    noCap: "No cap",
+    capReached: "The daily usage cap was reached. The scanner is back tomorrow or when the cap is raised.",
+  },
+
+  offline: {
+    queued: "Offline: the capture is queued and will be revealed when the network is back.",
+    revealed: (n: number) => `${n} ${n === 1 ? 'entity' : 'entities'} revealed from the queue. They are in the gallery.`,
+  },
+
+  world: {
+    title: "Coherent World",
+    hint: "Sends the latest entities of the session with every scan, so new ones can evolve from or relate to them.",
+    enabled: "ON",
+    disabled: "OFF",
+    size: "Entities remembered per scan",
+    remembered: (n: number) => `${n} ${n === 1 ? 'entity' : 'entities'} in this session`,
+    forget: "Forget",
+    chain: "Entity chain",
+  },
+
+  narration: {
+    title: "Narration",
+    hint: "Reads aloud the name, description and meaning of every revealed entity.",
+    unsupported: "This browser cannot synthesize speech.",
+    autoplayOn: "NARRATE ON REVEAL: ON",
+    autoplayOff: "NARRATE ON REVEAL: OFF",
+    voice: "Voice",
+    autoVoice: "Automatic",
+    online: "needs a connection",
+    play: "Narrate",
+    pause: "Pause narration",
+    resume: "Resume narration",
+    stop: "Stop narration",
+  },
+
+  location: {
+    title: "Anchor to location",
+    hint: "Stores where you were and which way you pointed on every scan. Back at the same spot, the same entity reappears.",
+    enabled: "ON",
+    disabled: "OFF",
+    revisit: (title: string) => `${title} is still here. You came back to its place.`,
+  },
+
+  bestiary: {
+    title: "Bestiary",
+    discoveries: "Discoveries",
+    scans: "Scans",
+    streak: "Current streak",
+    bestStreak: "Best streak",
+    days: (n: number) => `${n} ${n === 1 ? 'day' : 'days'}`,
+    firstDiscovered: (date: string) => `First: ${date}`,
+    notYet: "Undiscovered",
+    achievements: "Achievements",
+    log: "Log",
+    empty: "You have not discovered any entity yet. Go out and scan.",
+    unlocked: "Achievement unlocked",
+    achievementList: {
+      'first-scan': { name: "First contact", description: "Discover your first entity." },
+      'first-rare': { name: "Trained eye", description: "Discover a Rare entity." },
+      'first-legendary': { name: "Living legend", description: "Discover a Legendary entity." },
+      'first-artifact': { name: "First Artifact", description: "Discover an Artifact." },
+      'full-set': { name: "Complete taxonomy", description: "Discover one entity of each rarity." },
+      'ten-in-one-place': { name: "Haunted place", description: "Make 10 scans in the same place." },
+      'streak-3': { name: "Watcher", description: "Scan 3 days in a row." },
+      'streak-7': { name: "Obsession", description: "Scan 7 days in a row." },
+      'collector-25': { name: "Collector", description: "Discover 25 entities." },
+    },
+  },
+
+  map: {
+    title: "Haunted Map",
+    locating: "Finding your position...",
+    unavailable: "Your location could not be obtained. Check the permissions.",
+    empty: "No saved entity has a location. Turn on \"Anchor to location\" in the Lens Calibration.",
+    accuracy: (distance: string) => `Accuracy ±${distance}`,
+    you: "You",
+  },
+
+  preprocess: {
+    title: "Transmission",
+    hint: "Shrinks the image before sending it: maximum resolution and target payload size.",
+    maxDimension: "Maximum resolution",
+    byteBudget: "Target size",
+    format: "Format",
+    blurFacesOn: "BLUR FACES: ON",
+    blurFacesOff: "BLUR FACES: OFF",
+    blurFacesUnsupported: "This browser cannot detect faces.",
+  },
+
+  upload: {
+    pick: "Upload image",
+    dropHint: "Drop the image to scan it",
+    cameraFallback: "Upload a photo, drag it here or paste it to scan.",
+    unsupported: "That file is not an image.",
+    unreadable: "The image could not be read.",
+  },
+
+  slider: {
+    before: "Before",
+    after: "After",
+    compare: "Compare before and after",
+    composite: "Entity anchored in the scene",
+  },
+
+  share: {
+    title: "Share Anomaly",
+    preview: "Card to share",
+    share: "Share",
+    download: "Download PNG",
+    shared: "Card shared.",
+    downloaded: "Card downloaded as PNG.",
+    renderError: "The card could not be generated.",
+    shareError: "The card could not be shared.",
+    shareText: (title: string) => `I discovered "${title}" with Ojo Alucinatorio.`,
+  },
+
+  tileEditor: {
+    title: "Adjust Visualization",
+    selected: "Selected visualization",
+    history: "History",
+    refinePlaceholder: "E.g. more translucent, add fog...",
+    refine: "Refine",
+    regenerate: "Regenerate",
+    variations: "Variations",
+    actions: {
+      original: "Original",
+      regenerate: "Regenerated",
+      variation: "Variation",
+      refine: "Refined",
+    },
+  },
+};
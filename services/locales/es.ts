@@ -0,0 +1,328 @@
+// Textos de la interfaz en español (idioma de referencia: en.ts debe tener las mismas claves)
+
+export const es = {
+  common: {
+    close: "Cerrar",
+    delete: "Eliminar",
+    cancel: "Cancelar",
+    language: "Idioma",
+  },
+
+  rarity: {
+    common: "Común",
+    rare: "Raro",
+    legendary: "Legendario",
+    artifact: "Artefacto",
+  },
+
+  providers: {
+    gemini: "Gemini 2.5",
+    mock: "Simulador local",
+  },
+
+  entity: {
+    meaning: "Significado",
+    estimatedAge: "Antigüedad estimada",
+    anomaly: "Anomalía",
+    unidentified: "Sin identificar",
+    visualization: (n: number) => `Entidad Invisible ${n}`,
+    snapshot: "Captura original",
+    snapshotLabel: "Captura",
+  },
+
+  intro: {
+    subtitle: "Experimento de Realidad Aumentada",
+    tagline: "El mundo está lleno de arte que no puedes ver. Usa tu dispositivo para revelar las entidades invisibles, estructuras y recuerdos ocultos en los espacios vacíos a tu alrededor.",
+    start: "Iniciar Escáner",
+    gallery: "Galería",
+    about: "¿Cómo funciona?",
+    bestiary: "Bestiario",
+    map: "Mapa",
+    poweredBy: "Impulsado por Google Gemini 2.5",
+  },
+
+  // Segmentos alternos: los de índice impar se muestran resaltados
+  about: {
+    title: "¿Cómo funciona?",
+    inspiration: ["Inspirado en la exhibición ", "Seeing the Invisible", " de Google Arts & Culture, esta aplicación simula la experiencia de descubrir obras de arte digitales ocultas en espacios físicos."],
+    conceptTitle: "El Concepto Original",
+    concept: ["Tradicionalmente, las exhibiciones de RA usan coordenadas GPS para colocar obras 3D específicas en lugares exactos (como jardines botánicos). Tu teléfono actúa como una ventana para ver estos activos pre-colocados."],
+    experimentTitle: "Este Experimento de IA",
+    experiment: ["Como estamos en un navegador web sin activos pre-mapeados, esta app usa ", "IA Generativa (Gemini 2.5)", ". En lugar de mostrar arte prefabricado, analiza lo que ve tu cámara y \"alucina\" entidades invisibles basándose en el contexto visual de tu entorno."],
+    technologyTitle: "La Tecnología",
+    technology: ["Usamos la ", "API MediaStream", " para la cámara y ", "Gemini 2.5 Flash", " para procesar los datos visuales y generar la historia, descripción visual y significado del arte \"invisible\" en tiempo real."],
+    confirm: "Entendido",
+  },
+
+  gallery: {
+    title: "Galería de Anomalías",
+    all: "Todas",
+    empty: "Aún no hay anomalías registradas. Escanea tu entorno para empezar la colección.",
+    loadError: "No se pudo abrir el archivo de anomalías.",
+    deleteError: "No se pudo eliminar la anomalía.",
+    confirmDelete: (title: string) => `¿Eliminar "${title}" de la galería?`,
+  },
+
+  scanner: {
+    cameraError: "No se puede acceder a la cámara. Verifica los permisos.",
+    invalidEntity: "La anomalía llegó corrupta y no pudo reconstruirse. Intenta escanear de nuevo.",
+    timeout: "La dimensión oculta tardó demasiado en responder. Intenta escanear de nuevo.",
+    rateLimited: "Demasiados escaneos. Espera un momento antes de volver a intentarlo.",
+    tooLarge: "La imagen es demasiado grande para enviarla. Reduce la resolución en Transmisión.",
+    genericError: "Error al comunicar con la dimensión oculta.",
+    noImages: "La dimensión oculta no devolvió ninguna imagen. Intenta de nuevo.",
+    statusSearching: "BUSCANDO ANOMALÍAS",
+    statusSettling: "ESCENA NUEVA · ESTABILIZANDO",
+    statusCooldown: "ENFRIANDO SENSOR",
+    statusExhausted: "CUOTA DE SESIÓN AGOTADA",
+    statusAnalyzing: "INTERPRETANDO DATOS...",
+    statusVisualizing: (done: number, total: number) => `GENERANDO IMÁGENES (${done}/${total}) + ANCLAJE...`,
+    decoding: "Decodificando Realidad...",
+    signalLost: "Señal perdida",
+    gridView: "Cuadrícula",
+    arView: "Vista RA",
+    rescan: "Re-escanear",
+  },
+
+  settings: {
+    title: "Calibración de Lente",
+    provider: "Motor de Visión",
+    prompt: "Prompt del Sistema",
+    promptHint: "Define cómo la IA interpreta la realidad.",
+    promptPlaceholder: "Escribe tus instrucciones aquí...",
+    negativePrompt: "Prompt Negativo",
+    negativePromptHint: "Elementos a EXCLUIR de la alucinación.",
+    negativePromptPlaceholder: "Ej: texto, borroso, gente...",
+    resolution: "Resolución (Gemini 3 Pro)",
+    aspectRatio: "Relación de Aspecto",
+    cameraAspect: (ratio: string) => `Cámara (${ratio})`,
+    variants: "Variantes",
+    seed: "Semilla",
+    seedPlaceholder: "Aleatoria",
+    save: "Guardar Calibración",
+    builtInCopyPrompt: "Las calibraciones predefinidas no se modifican. Nombre para la copia:",
+  },
+
+  presets: {
+    saved: "Calibración Guardada",
+    copyOf: (name: string) => `${name} (copia)`,
+    saveAsPrompt: "Nombre de la nueva calibración:",
+    confirmDelete: (name: string) => `¿Eliminar la calibración "${name}"?`,
+    imported: (count: number) => `${count} calibración(es) importada(s).`,
+    saveAs: "Guardar como nueva",
+    import: "Importar JSON",
+    export: "Exportar JSON",
+    unsaved: "Cambios sin guardar",
+    unsavedBuiltIn: " · se guardarán como una copia",
+    invalidJson: "El archivo no es JSON válido.",
+    noPresets: "El archivo no contiene calibraciones.",
+    noneValid: "Ninguna calibración del archivo es válida.",
+    exportFileName: "calibraciones-ojo-alucinatorio.json",
+  },
+
+  liveScan: {
+    title: "Escaneo en Vivo",
+    hint: "Escanea automáticamente cuando la escena cambia y se mantiene estable.",
+    enabled: "ACTIVADO",
+    disabled: "DESACTIVADO",
+    changeThreshold: "Sensibilidad al cambio (bits)",
+    holdSeconds: "Estabilidad requerida (s)",
+    cooldownSeconds: "Enfriamiento (s)",
+    sessionBudget: "Escaneos por sesión",
+  },
+
+  camera: {
+    title: "Cámara",
+    device: (n: number) => `Cámara ${n}`,
+    switchFacing: "Cambiar cámara",
+    torchOn: "Encender linterna",
+    torchOff: "Apagar linterna",
+    zoom: "Zoom",
+  },
+
+  interrogation: {
+    open: "Interrogar",
+    title: (name: string) => `Interrogar · ${name}`,
+    empty: "La entidad espera tus preguntas. Pregúntale de dónde viene, qué quiere o cuánto lleva aquí.",
+    placeholder: "Haz una pregunta...",
+    send: "Enviar",
+    error: "La entidad no respondió. Intenta preguntar de nuevo.",
+  },
+
+  safety: {
+    title: "Filtro de Contenido",
+    hint: "Términos prohibidos, uno por línea. Se comprueban en el prompt, el prompt negativo y el texto de cada entidad, además de los filtros de Gemini.",
+    placeholder: "un término por línea",
+    count: (n: number) => `${n} ${n === 1 ? 'término' : 'términos'}`,
+    restore: "Restaurar",
+    censoredTitle: "Anomalía censurada",
+    censoredHint: "Esta entidad no es apta para mostrarse aquí. Apunta a otro lugar y vuelve a escanear.",
+    byModel: "Retenida por los filtros de seguridad",
+    byDenylist: "Retenida por el filtro local",
+    censoredTile: "Censurada",
+    imageCensored: "La imagen fue retenida por los filtros de seguridad.",
+    answerCensored: "La entidad no puede responder a eso.",
+  },
+
+  kiosk: {
+    title: "Modo Quiosco",
+    hint: "Para tabletas desatendidas: la calibración queda tras un PIN, la pantalla no se apaga, los resultados se limpian solos y tras un rato sin uso vuelve a la portada con un bucle de entidades guardadas.",
+    pin: "PIN de administración",
+    pinHint: "De 4 a 8 dígitos. Necesario para activar el modo.",
+    enabled: "Quiosco activado",
+    disabled: "Quiosco desactivado",
+    idle: "Volver a la portada tras",
+    resultReset: "Limpiar el resultado tras",
+    locked: "Calibración bloqueada",
+    unlock: "Desbloquear",
+    wrongPin: "PIN incorrecto",
+    touchToStart: "Toca para revelar lo invisible",
+  },
+
+  usage: {
+    title: "Consumo",
+    hint: "Llamadas a Gemini hechas a través del proxy. El coste es una estimación con precios de lista.",
+    session: "Sesión",
+    today: "Hoy",
+    requests: "Llamadas",
+    failures: "Fallidas",
+    promptTokens: "Tokens entrada",
+    outputTokens: "Tokens salida",
+    images: "Imágenes",
+    latency: "Latencia media",
+    cost: "Coste estimado",
+    dailyCap: "Tope diario",
+    noCap: "Sin tope",
+    capReached: "Se alcanzó el tope diario de consumo. El escáner vuelve mañana o al subir el tope.",
+  },
+
+  offline: {
+    queued: "Sin conexión: la captura queda en cola y se revelará al volver la red.",
+    revealed: (n: number) => `${n} ${n === 1 ? 'entidad revelada' : 'entidades reveladas'} desde la cola. Están en la galería.`,
+  },
+
+  world: {
+    title: "Mundo Coherente",
+    hint: "Envía las últimas entidades de la sesión con cada escaneo, para que las nuevas evolucionen o se relacionen con ellas.",
+    enabled: "ACTIVADO",
+    disabled: "DESACTIVADO",
+    size: "Entidades recordadas por escaneo",
+    remembered: (n: number) => `${n} ${n === 1 ? 'entidad' : 'entidades'} en esta sesión`,
+    forget: "Olvidar",
+    chain: "Cadena de entidades",
+  },
+
+  narration: {
+    title: "Narración",
+    hint: "Lee en voz alta el nombre, la descripción y el significado de cada entidad revelada.",
+    unsupported: "Este navegador no puede sintetizar voz.",
+    autoplayOn: "NARRAR AL REVELAR: ACTIVADO",
+    autoplayOff: "NARRAR AL REVELAR: DESACTIVADO",
+    voice: "Voz",
+    autoVoice: "Automática",
+    online: "requiere conexión",
+    play: "Narrar",
+    pause: "Pausar narración",
+    resume: "Reanudar narración",
+    stop: "Detener narración",
+  },
+
+  location: {
+    title: "Anclar a la ubicación",
+    hint: "Guarda dónde y hacia dónde apuntabas en cada escaneo. Al volver al mismo lugar reaparece la misma entidad.",
+    enabled: "ACTIVADO",
+    disabled: "DESACTIVADO",
+    revisit: (title: string) => `${title} sigue aquí. Has vuelto a su lugar.`,
+  },
+
+  bestiary: {
+    title: "Bestiario",
+    discoveries: "Descubrimientos",
+    scans: "Escaneos",
+    streak: "Racha actual",
+    bestStreak: "Mejor racha",
+    days: (n: number) => `${n} ${n === 1 ? 'día' : 'días'}`,
+    firstDiscovered: (date: string) => `Primera: ${date}`,
+    notYet: "Sin descubrir",
+    achievements: "Logros",
+    log: "Registro",
+    empty: "Aún no has descubierto ninguna entidad. Sal a escanear.",
+    unlocked: "Logro desbloqueado",
+    achievementList: {
+      'first-scan': { name: "Primer contacto", description: "Descubre tu primera entidad." },
+      'first-rare': { name: "Ojo entrenado", description: "Descubre una entidad Rara." },
+      'first-legendary': { name: "Leyenda viva", description: "Descubre una entidad Legendaria." },
+      'first-artifact': { name: "Primer Artefacto", description: "Descubre un Artefacto." },
+      'full-set': { name: "Taxonomía completa", description: "Descubre una entidad de cada rareza." },
+      'ten-in-one-place': { name: "Lugar embrujado", description: "Haz 10 escaneos en un mismo lugar." },
+      'streak-3': { name: "Vigilante", description: "Escanea 3 días seguidos." },
+      'streak-7': { name: "Obsesión", description: "Escanea 7 días seguidos." },
+      'collector-25': { name: "Coleccionista", description: "Descubre 25 entidades." },
+    },
+  },
+
+  map: {
+    title: "Mapa Embrujado",
+    locating: "Buscando tu posición...",
+    unavailable: "No se pudo obtener tu ubicación. Verifica los permisos.",
+    empty: "Ninguna entidad guardada tiene ubicación. Activa «Anclar a la ubicación» en la Calibración de Lente.",
+    accuracy: (distance: string) => `Precisión ±${distance}`,
+    you: "Tú",
+  },
+
+  preprocess: {
+    title: "Transmisión",
+    hint: "Reduce la imagen antes de enviarla: resolución máxima y tamaño objetivo del envío.",
+    maxDimension: "Resolución máxima",
+    byteBudget: "Tamaño objetivo",
+    format: "Formato",
+    blurFacesOn: "DIFUMINAR CARAS: ACTIVADO",
+    blurFacesOff: "DIFUMINAR CARAS: DESACTIVADO",
+    blurFacesUnsupported: "Este navegador no puede detectar caras.",
+  },
+
+  upload: {
+    pick: "Subir imagen",
+    dropHint: "Suelta la imagen para escanearla",
+    cameraFallback: "Sube una foto, arrástrala aquí o pégala para escanear.",
+    unsupported: "Ese archivo no es una imagen.",
+    unreadable: "No se pudo leer la imagen.",
+  },
+
+  slider: {
+    before: "Antes",
+    after: "Después",
+    compare: "Comparar antes y después",
+    composite: "Entidad anclada en la escena",
+  },
+
+  share: {
+    title: "Compartir Anomalía",
+    preview: "Tarjeta para compartir",
+    share: "Compartir",
+    download: "Descargar PNG",
+    shared: "Tarjeta compartida.",
+    downloaded: "Tarjeta descargada como PNG.",
+    renderError: "No se pudo generar la tarjeta.",
+    shareError: "No se pudo compartir la tarjeta.",
+    shareText: (title: string) => `He descubierto "${title}" con Ojo Alucinatorio.`,
+  },
+
+  tileEditor: {
+    title: "Ajustar Visualización",
+    selected: "Visualización seleccionada",
+    history: "Historial",
+    refinePlaceholder: "Ej: más translúcido, añade niebla...",
+    refine: "Refinar",
+    regenerate: "Regenerar",
+    variations: "Variaciones",
+    actions: {
+      original: "Original",
+      regenerate: "Regenerada",
+      variation: "Variación",
+      refine: "Refinada",
+    },
+  },
+};
+
+export type Messages = typeof es;
@@ -0,0 +1,338 @@
+import { GenerationOptions, InterrogationMessage, InvisibleEntity, Rarity, VisualizationReference } from "../types";
+import { aspectRatioValue, variantSeed } from "./generation";
+import { PartialEntityListener, ProviderCallOptions, ScanCallOptions, VisionProvider, VisualizeCallOptions } from "./provider";
+import { DEFAULT_LOCALE, Locale } from "./i18n";
+import { sleep } from "./retry";
+
+// Offline backend: deterministic entities and procedurally drawn placeholders
+
+const MOCK_LATENCY_MS = 600;
+const STREAM_CHUNK_MS = 40;
+
+const CANNED_ENTITIES: Record<Locale, InvisibleEntity[]> = {
+  es: [
+    {
+      title: "Eco Residual de Polvo",
+      description: "Una nube de partículas doradas suspendida sobre la superficie más cercana, girando lentamente como si recordara una corriente de aire antigua.",
+      visualStyle: "Partículas de luz cálida, bokeh suave, reflejos dorados sobre la superficie, sombras tenues.",
+      meaning: "Conserva la memoria de los movimientos que ocurrieron en este lugar.",
+      estimatedAge: "Aproximadamente 40 años",
+      rarity: 'common',
+    },
+    {
+      title: "Guardián de la Esquina",
+      description: "Una silueta translúcida de vidrio ahumado emergiendo de la sombra en la esquina, con vetas de luz cian recorriendo su contorno.",
+      visualStyle: "Vidrio ahumado, luz cian interna, refracciones, iluminación ambiental baja.",
+      meaning: "Vigila los umbrales y absorbe la luz que nadie mira.",
+      estimatedAge: "Siglo XIX",
+      rarity: 'rare',
+    },
+    {
+      title: "Raíz Cartográfica",
+      description: "Raíces de cobre oxidado que brotan del suelo y trazan un mapa de la habitación, apoyadas sobre la superficie plana más visible.",
+      visualStyle: "Cobre con pátina verde, texturas metálicas, luz lateral rasante, sombras duras.",
+      meaning: "Dibuja los caminos que el espacio tuvo antes de ser construido.",
+      estimatedAge: "Más de 300 años",
+      rarity: 'legendary',
+    },
+    {
+      title: "Artefacto del Umbral Cero",
+      description: "Un prisma flotando a media altura sobre el centro de la escena, proyectando un halo violeta sobre los objetos cercanos.",
+      visualStyle: "Cristal facetado, halo violeta, cáusticas sobre las superficies, iluminación coherente con la foto.",
+      meaning: "Un instrumento olvidado que mide la distancia entre lo visible y lo invisible.",
+      estimatedAge: "Indeterminada",
+      rarity: 'artifact',
+    },
+  ],
+  en: [
+    {
+      title: "Residual Dust Echo",
+      description: "A cloud of golden particles suspended above the nearest surface, turning slowly as if remembering an old draft of air.",
+      visualStyle: "Warm light particles, soft bokeh, golden reflections on the surface, faint shadows.",
+      meaning: "It keeps the memory of the movements that happened in this place.",
+      estimatedAge: "About 40 years",
+      rarity: 'common',
+    },
+    {
+      title: "Corner Warden",
+      description: "A translucent silhouette of smoked glass emerging from the shadow in the corner, with veins of cyan light running along its outline.",
+      visualStyle: "Smoked glass, inner cyan light, refractions, low ambient lighting.",
+      meaning: "It watches over thresholds and absorbs the light nobody looks at.",
+      estimatedAge: "19th century",
+      rarity: 'rare',
+    },
+    {
+      title: "Cartographic Root",
+      description: "Rusted copper roots sprouting from the floor and tracing a map of the room, resting on the most visible flat surface.",
+      visualStyle: "Copper with green patina, metallic textures, grazing side light, hard shadows.",
+      meaning: "It draws the paths the space had before it was built.",
+      estimatedAge: "Over 300 years",
+      rarity: 'legendary',
+    },
+    {
+      title: "Artifact of the Zero Threshold",
+      description: "A prism floating at mid-height above the center of the scene, casting a violet halo over nearby objects.",
+      visualStyle: "Faceted crystal, violet halo, caustics on the surfaces, lighting consistent with the photo.",
+      meaning: "A forgotten instrument that measures the distance between the visible and the invisible.",
+      estimatedAge: "Undetermined",
+      rarity: 'artifact',
+    },
+  ],
+};
+
+// Placeholders stay small regardless of the requested size (longest side)
+const PLACEHOLDER_SIZE = 512;
+
+// FNV-1a, enough to pick a stable entity per input
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32 PRNG
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const HUES_BY_RARITY: Record<Rarity, number> = {
+  common: 40,
+  rare: 190,
+  legendary: 38,
+  artifact: 275,
+};
+
+// Orbes luminosos y trazos orbitales centrados en (cx, cy)
+const drawEntityGlow = (
+  ctx: CanvasRenderingContext2D,
+  random: () => number,
+  hue: number,
+  cx: number,
+  cy: number,
+  span: number
+) => {
+  ctx.globalCompositeOperation = 'lighter';
+  for (let i = 0; i < 24; i++) {
+    const x = cx + span * (random() - 0.5) * 0.6;
+    const y = cy + span * (random() - 0.5) * 0.6;
+    const radius = span * (0.02 + random() * 0.12);
+    const glow = ctx.createRadialGradient(x, y, 0, x, y, radius);
+    glow.addColorStop(0, `hsla(${hue + random() * 60 - 30}, 90%, 65%, 0.8)`);
+    glow.addColorStop(1, `hsla(${hue}, 90%, 50%, 0)`);
+    ctx.fillStyle = glow;
+    ctx.beginPath();
+    ctx.arc(x, y, radius, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  ctx.strokeStyle = `hsla(${hue}, 80%, 75%, 0.35)`;
+  ctx.lineWidth = Math.max(1, span / 400);
+  for (let i = 0; i < 6; i++) {
+    ctx.beginPath();
+    ctx.ellipse(cx, cy, span * (0.1 + random() * 0.3), span * (0.05 + random() * 0.2), random() * Math.PI, 0, Math.PI * 2);
+    ctx.stroke();
+  }
+  ctx.globalCompositeOperation = 'source-over';
+};
+
+const drawPlaceholder = (entity: InvisibleEntity, seed: number, width: number, height: number): string | null => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  const hue = HUES_BY_RARITY[entity.rarity] ?? 200;
+  const span = Math.min(width, height);
+
+  const background = ctx.createRadialGradient(width / 2, height / 2, 0, width / 2, height / 2, Math.max(width, height) * 0.7);
+  background.addColorStop(0, `hsl(${hue}, 40%, 18%)`);
+  background.addColorStop(1, 'hsl(0, 0%, 3%)');
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, width, height);
+
+  drawEntityGlow(ctx, createRandom(seed), hue, width / 2, height / 2, span);
+
+  return canvas.toDataURL('image/png');
+};
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error("No se pudo decodificar la captura."));
+  img.src = src;
+});
+
+// Redibuja la referencia con un brillo nuevo; el refinado además desplaza el tono según la instrucción
+const drawFromReference = async (
+  entity: InvisibleEntity,
+  reference: VisualizationReference,
+  seed: number,
+  width: number,
+  height: number
+): Promise<string | null> => {
+  const source = await loadImage(reference.image);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  const hueShift = reference.instruction ? hashString(reference.instruction) % 360 : 0;
+  ctx.filter = `hue-rotate(${hueShift}deg)`;
+  ctx.drawImage(source, 0, 0, width, height);
+  ctx.filter = 'none';
+
+  const hue = (HUES_BY_RARITY[entity.rarity] ?? 200) + hueShift;
+  drawEntityGlow(ctx, createRandom(seed), hue, width / 2, height / 2, Math.min(width, height) * 0.8);
+  return canvas.toDataURL('image/png');
+};
+
+// Simula la transmisión revelando el texto de cada campo por tramos
+const streamFields = async (entity: InvisibleEntity, onPartial: PartialEntityListener, signal?: AbortSignal) => {
+  const fields = ['title', 'description', 'visualStyle', 'meaning', 'estimatedAge', 'rarity'] as const;
+  const partial: Partial<InvisibleEntity> = {};
+  for (const field of fields) {
+    const value = entity[field];
+    for (let end = Math.min(12, value.length); ; end = Math.min(end + 12, value.length)) {
+      (partial as Record<string, string>)[field] = value.slice(0, end);
+      onPartial({ ...partial });
+      await sleep(STREAM_CHUNK_MS, signal);
+      if (end === value.length) break;
+    }
+  }
+};
+
+// Mundo coherente simulado: la nueva entidad se enlaza siempre con la más reciente
+const CANNED_RELATIONS: Record<Locale, string[]> = {
+  es: ["su cría", "se alimenta de ella", "su forma evolucionada", "el rastro que dejó"],
+  en: ["its offspring", "feeds on it", "its evolved form", "the trace it left"],
+};
+
+export const scanForInvisibleEntity = async (
+  base64Image: string,
+  customPrompt: string,
+  { onPartial, signal, locale = DEFAULT_LOCALE, world = [] }: ScanCallOptions = {}
+): Promise<InvisibleEntity> => {
+  await sleep(MOCK_LATENCY_MS, signal);
+  const seed = hashString(base64Image + customPrompt);
+  const random = createRandom(seed);
+  const width = 0.2 + random() * 0.25;
+  const height = 0.2 + random() * 0.25;
+  // Avoid repeating an entity the world already has, while any canned one is left
+  const canned = CANNED_ENTITIES[locale];
+  const fresh = canned.filter((candidate) => !world.some((known) => known.title === candidate.title));
+  const pool = fresh.length > 0 ? fresh : canned;
+  const latest = world[world.length - 1];
+  const entity: InvisibleEntity = {
+    ...pool[seed % pool.length],
+    relatedTo: latest && {
+      title: latest.title,
+      relation: CANNED_RELATIONS[locale][seed % CANNED_RELATIONS[locale].length],
+    },
+    anchor: {
+      x: width / 2 + random() * (1 - width),
+      y: height / 2 + random() * (1 - height),
+      width,
+      height,
+    },
+  };
+
+  if (onPartial) await streamFields(entity, onPartial, signal);
+  return entity;
+};
+
+export const generateEntityVisualization = async (
+  entity: InvisibleEntity,
+  options: GenerationOptions,
+  _negativePrompt: string,
+  { onImage, reference, signal }: VisualizeCallOptions = {}
+): Promise<string[]> => {
+  const ratio = aspectRatioValue(options.aspectRatio);
+  const width = ratio >= 1 ? PLACEHOLDER_SIZE : Math.round(PLACEHOLDER_SIZE * ratio);
+  const height = ratio >= 1 ? Math.round(PLACEHOLDER_SIZE / ratio) : PLACEHOLDER_SIZE;
+  const baseSeed = options.seed ?? hashString(entity.title);
+
+  // Staggered so the per-tile arrival is visible
+  const results = await Promise.all(
+    Array.from({ length: options.variantCount }, async (_, variant) => {
+      await sleep(MOCK_LATENCY_MS * (variant + 1), signal);
+      const url = reference
+        ? await drawFromReference(entity, reference, variantSeed(baseSeed, variant), width, height).catch(() => null)
+        : drawPlaceholder(entity, variantSeed(baseSeed, variant), width, height);
+      onImage?.(variant, url);
+      return url;
+    })
+  );
+  return results.filter((url): url is string => url !== null);
+};
+
+export const compositeEntityIntoScene = async (
+  entity: InvisibleEntity,
+  base64Image: string,
+  _negativePrompt: string,
+  { signal }: ProviderCallOptions = {}
+): Promise<string | null> => {
+  await sleep(MOCK_LATENCY_MS, signal);
+  try {
+    const snapshot = await loadImage(base64Image);
+    const canvas = document.createElement('canvas');
+    canvas.width = snapshot.naturalWidth;
+    canvas.height = snapshot.naturalHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+
+    ctx.drawImage(snapshot, 0, 0);
+    const anchor = entity.anchor ?? { x: 0.5, y: 0.5, width: 0.5, height: 0.5 };
+    const span = Math.min(anchor.width * canvas.width, anchor.height * canvas.height) * 2;
+    drawEntityGlow(ctx, createRandom(hashString(entity.title)), HUES_BY_RARITY[entity.rarity] ?? 200, anchor.x * canvas.width, anchor.y * canvas.height, span);
+
+    return canvas.toDataURL('image/jpeg', 0.9);
+  } catch (error) {
+    console.error("Failed to composite entity:", error);
+    return null;
+  }
+};
+
+// Respuestas del simulador: plantillas que citan la ficha, así el chat sigue siendo coherente
+const CANNED_ANSWERS: Record<Locale, ((entity: InvisibleEntity) => string)[]> = {
+  es: [
+    (entity) => `Llevo aquí ${entity.estimatedAge}. Antes de tu escáner, nadie me había preguntado nada.`,
+    (entity) => `Mi razón de ser es esta: ${entity.meaning}`,
+    (entity) => `Mírame bien: ${entity.visualStyle}. Así me formé.`,
+    (entity) => `Ya te lo dije, soy ${entity.title}. Mi historia no cambia porque insistas.`,
+  ],
+  en: [
+    (entity) => `I have been here ${entity.estimatedAge}. Before your scanner, nobody had ever asked me anything.`,
+    (entity) => `This is why I exist: ${entity.meaning}`,
+    (entity) => `Look closely: ${entity.visualStyle}. That is how I was formed.`,
+    (entity) => `I told you already, I am ${entity.title}. My story does not change because you insist.`,
+  ],
+};
+
+export const interrogateEntity = async (
+  entity: InvisibleEntity,
+  _base64Image: string,
+  transcript: InterrogationMessage[],
+  question: string,
+  { signal, locale = DEFAULT_LOCALE }: ProviderCallOptions = {}
+): Promise<string> => {
+  await sleep(MOCK_LATENCY_MS, signal);
+  const answers = CANNED_ANSWERS[locale];
+  return answers[hashString(question + transcript.length) % answers.length](entity);
+};
+
+export const mockProvider: VisionProvider = {
+  id: 'mock',
+  requiresNetwork: false,
+  scanForInvisibleEntity,
+  generateEntityVisualization,
+  compositeEntityIntoScene,
+  interrogateEntity,
+};
@@ -0,0 +1,37 @@
+import { InvisibleEntity, Rarity } from "../types";
+import { Locale, getMessages } from "./i18n";
+
+// Lectura en voz alta de la entidad revelada con la Web Speech API (funciona sin conexión con voces locales)
+
+export interface VoiceStyle {
+  rate: number;  // 0.1..10, 1 = normal
+  pitch: number; // 0..2, 1 = normal
+}
+
+// The rarer the entity, the further the voice moves from a normal reading
+export const VOICE_STYLES: Record<Rarity, VoiceStyle> = {
+  common: { rate: 1, pitch: 1 },
+  rare: { rate: 0.92, pitch: 0.85 },
+  legendary: { rate: 0.75, pitch: 0.5 },
+  artifact: { rate: 1.1, pitch: 1.4 },
+};
+
+export const isSpeechSupported = () => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+export const listVoices = (locale: Locale): SpeechSynthesisVoice[] =>
+  isSpeechSupported()
+    ? window.speechSynthesis.getVoices().filter((voice) => voice.lang.toLowerCase().startsWith(locale))
+    : [];
+
+// The chosen voice if it is still installed; otherwise prefer one that works offline
+export const pickVoice = (locale: Locale, voiceURI: string | null): SpeechSynthesisVoice | undefined => {
+  const voices = listVoices(locale);
+  return voices.find((voice) => voice.voiceURI === voiceURI)
+    ?? voices.find((voice) => voice.localService)
+    ?? voices[0];
+};
+
+export const buildNarration = (entity: InvisibleEntity, locale: Locale) => {
+  const { entity: labels } = getMessages(locale);
+  return `${entity.title}. ${entity.description} ${labels.meaning}: ${entity.meaning}`;
+};
@@ -0,0 +1,158 @@
+// Shrinks a captured frame before it is sent: resolution cap, adaptive quality to a byte budget,
+// optional WebP and optional blurring of faces
+
+export type ImageFormat = 'jpeg' | 'webp';
+
+export interface PreprocessSettings {
+  maxDimension: number; // longest side in px
+  byteBudget: number;   // target size of the data URL sent to the proxy
+  format: ImageFormat;
+  blurFaces: boolean;
+}
+
+export const DEFAULT_PREPROCESS: PreprocessSettings = {
+  maxDimension: 1920,
+  byteBudget: 1024 * 1024,
+  format: 'jpeg',
+  blurFaces: false,
+};
+
+export const MAX_DIMENSIONS = [1024, 1536, 1920, 2560];
+export const BYTE_BUDGETS = [256 * 1024, 512 * 1024, 1024 * 1024, 2 * 1024 * 1024];
+
+export interface PreparedImage {
+  dataUrl: string;
+  width: number;
+  height: number;
+  bytes: number; // length of dataUrl, i.e. what goes over the wire
+  format: ImageFormat;
+  quality: number;
+  facesBlurred: number;
+}
+
+// Highest first: the first quality that fits the budget wins
+const QUALITY_STEPS = [0.95, 0.88, 0.8, 0.7, 0.6, 0.5];
+// Below this side length we stop shrinking and accept going over budget
+const MIN_DIMENSION = 480;
+const SHRINK_FACTOR = 0.75;
+// Lado del lienzo intermedio al que se reduce cada cara: cuanto menor, más borrosa
+const FACE_BLUR_SIZE = 6;
+
+// Shape Detection API; lib.dom does not declare it and only Chromium ships it
+interface DetectedFace {
+  boundingBox: DOMRectReadOnly;
+}
+
+interface FaceDetectorInstance {
+  detect: (image: CanvasImageSource) => Promise<DetectedFace[]>;
+}
+
+type FaceDetectorConstructor = new (options?: { fastMode?: boolean; maxDetectedFaces?: number }) => FaceDetectorInstance;
+
+const getFaceDetector = (): FaceDetectorConstructor | undefined =>
+  (window as unknown as { FaceDetector?: FaceDetectorConstructor }).FaceDetector;
+
+export const isFaceDetectionSupported = () => typeof window !== 'undefined' && !!getFaceDetector();
+
+// Browsers without a WebP encoder silently return PNG
+let webpSupport: boolean | null = null;
+export const isWebpSupported = () => {
+  if (webpSupport === null) {
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = 1;
+    webpSupport = canvas.toDataURL('image/webp').startsWith('data:image/webp');
+  }
+  return webpSupport;
+};
+
+// Downscaling a region and stretching it back is a blur every canvas supports (ctx.filter is not in Safari)
+const blurRegion = (ctx: CanvasRenderingContext2D, box: DOMRectReadOnly) => {
+  // Margen para cubrir pelo y orejas, que el detector deja fuera
+  const margin = Math.max(box.width, box.height) * 0.2;
+  const x = Math.max(0, box.x - margin);
+  const y = Math.max(0, box.y - margin);
+  const width = Math.min(ctx.canvas.width - x, box.width + margin * 2);
+  const height = Math.min(ctx.canvas.height - y, box.height + margin * 2);
+  if (width <= 0 || height <= 0) return;
+
+  const tiny = document.createElement('canvas');
+  tiny.width = FACE_BLUR_SIZE;
+  tiny.height = Math.max(1, Math.round(FACE_BLUR_SIZE * (height / width)));
+  const tinyCtx = tiny.getContext('2d');
+  if (!tinyCtx) return;
+  tinyCtx.drawImage(ctx.canvas, x, y, width, height, 0, 0, tiny.width, tiny.height);
+
+  ctx.save();
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(tiny, 0, 0, tiny.width, tiny.height, x, y, width, height);
+  ctx.restore();
+};
+
+const blurFaces = async (ctx: CanvasRenderingContext2D): Promise<number> => {
+  const Detector = getFaceDetector();
+  if (!Detector) return 0;
+  try {
+    const faces = await new Detector({ fastMode: true, maxDetectedFaces: 10 }).detect(ctx.canvas);
+    faces.forEach((face) => blurRegion(ctx, face.boundingBox));
+    return faces.length;
+  } catch (err) {
+    // Privacy is best effort: a detector failure must not block the scan
+    console.warn("Face detection failed:", err);
+    return 0;
+  }
+};
+
+const encode = (canvas: HTMLCanvasElement, format: ImageFormat, budget: number) => {
+  let dataUrl = '';
+  let quality = QUALITY_STEPS[0];
+  for (quality of QUALITY_STEPS) {
+    dataUrl = canvas.toDataURL(`image/${format}`, quality);
+    if (dataUrl.length <= budget) break;
+  }
+  return { dataUrl, quality };
+};
+
+export const preprocessImage = async (
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  settings: PreprocessSettings
+): Promise<PreparedImage> => {
+  const format: ImageFormat = settings.format === 'webp' && isWebpSupported() ? 'webp' : 'jpeg';
+  let scale = Math.min(1, settings.maxDimension / Math.max(sourceWidth, sourceHeight));
+
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D no disponible.");
+
+  const draw = async () => {
+    canvas.width = Math.round(sourceWidth * scale);
+    canvas.height = Math.round(sourceHeight * scale);
+    ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+    return settings.blurFaces ? blurFaces(ctx) : 0;
+  };
+
+  let facesBlurred = await draw();
+  let encoded = encode(canvas, format, settings.byteBudget);
+
+  // Even the lowest quality is too heavy: trade resolution for size
+  while (encoded.dataUrl.length > settings.byteBudget && Math.max(canvas.width, canvas.height) * SHRINK_FACTOR >= MIN_DIMENSION) {
+    scale *= SHRINK_FACTOR;
+    facesBlurred = await draw();
+    encoded = encode(canvas, format, settings.byteBudget);
+  }
+
+  return {
+    dataUrl: encoded.dataUrl,
+    width: canvas.width,
+    height: canvas.height,
+    bytes: encoded.dataUrl.length,
+    format,
+    quality: encoded.quality,
+    facesBlurred,
+  };
+};
+
+export const formatBytes = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
@@ -0,0 +1,159 @@
+import { ImageSize } from "../types";
+import { DEFAULT_PROMPTS } from "./prompts";
+import { Locale } from "./i18n";
+import { PresetImportError } from "./errors";
+
+// Presets de calibración: built-ins + presets del usuario guardados en localStorage
+
+export interface CalibrationPreset {
+  id: string;
+  name: string;
+  customPrompt: string;
+  negativePrompt: string;
+  imageSize: ImageSize;
+  builtIn?: boolean;
+}
+
+interface PresetFile {
+  version: 1;
+  presets: CalibrationPreset[];
+}
+
+const PRESETS_KEY = 'ojo-alucinatorio:presets';
+const ACTIVE_PRESET_KEY = 'ojo-alucinatorio:active-preset';
+
+export const DEFAULT_NEGATIVE_PROMPTS: Record<Locale, string> = {
+  es: "texto, marcas de agua, cartoon, dibujo, baja calidad, borroso",
+  en: "text, watermarks, cartoon, drawing, low quality, blurry",
+};
+
+const DEFAULT_PRESET_ID = 'default';
+
+// Los built-ins se traducen; los presets del usuario se guardan tal cual los escribió
+export const getBuiltInPresets = (locale: Locale): CalibrationPreset[] => {
+  const prompt = DEFAULT_PROMPTS[locale];
+  const negative = DEFAULT_NEGATIVE_PROMPTS[locale];
+  const en = locale === 'en';
+
+  return [
+    {
+      id: DEFAULT_PRESET_ID,
+      name: en ? 'Default' : 'Predeterminado',
+      customPrompt: prompt,
+      negativePrompt: negative,
+      imageSize: '1K',
+      builtIn: true,
+    },
+    {
+      id: 'horror',
+      name: 'Horror',
+      customPrompt: en
+        ? `${prompt}
+TONE: Atmospheric horror. The entity is unsettling, partially hidden and seems to watch whoever is scanning. Use deep shadows, organic textures and a disturbing story, without explicit gore.`
+        : `${prompt}
+TONO: Terror atmosférico. La entidad es inquietante, parcialmente oculta y parece observar a quien escanea. Usa sombras profundas, texturas orgánicas y una historia perturbadora, sin gore explícito.`,
+      negativePrompt: en ? `${negative}, blood, gore, saturated colors` : `${negative}, sangre, gore, colores saturados`,
+      imageSize: '1K',
+      builtIn: true,
+    },
+    {
+      id: 'museo',
+      name: en ? 'Museum' : 'Museo',
+      customPrompt: en
+        ? `${prompt}
+TONE: Museum piece. The entity is an artwork or relic with a curatorial label: imaginary authorship, technique, period and a plausible historical context.`
+        : `${prompt}
+TONO: Pieza de museo. La entidad es una obra o reliquia con ficha curatorial: autoría imaginaria, técnica, época y contexto histórico verosímil.`,
+      negativePrompt: en ? `${negative}, creatures, monsters` : `${negative}, criaturas, monstruos`,
+      imageSize: '2K',
+      builtIn: true,
+    },
+    {
+      id: 'jardin-botanico',
+      name: en ? 'Botanical garden' : 'Jardín botánico',
+      customPrompt: en
+        ? `${prompt}
+TONE: Fantastic botany. The entity is an invisible plant or fungal species, with an invented scientific name, habitat and life cycle tied to the light and humidity of the scene.`
+        : `${prompt}
+TONO: Botánica fantástica. La entidad es una especie vegetal o fúngica invisible, con nombre científico inventado, hábitat y ciclo de vida ligados a la luz y la humedad de la escena.`,
+      negativePrompt: en ? `${negative}, animals, metal, technology` : `${negative}, animales, metal, tecnología`,
+      imageSize: '1K',
+      builtIn: true,
+    },
+  ];
+};
+
+const IMAGE_SIZES: ImageSize[] = ['1K', '2K', '4K'];
+
+const isPreset = (value: unknown): value is CalibrationPreset => {
+  const preset = value as CalibrationPreset;
+  return !!preset
+    && typeof preset.name === 'string' && preset.name.trim() !== ''
+    && typeof preset.customPrompt === 'string'
+    && typeof preset.negativePrompt === 'string'
+    && IMAGE_SIZES.includes(preset.imageSize);
+};
+
+const createPresetId = () => `preset-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const loadUserPresets = (): CalibrationPreset[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PRESETS_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter(isPreset).map((preset) => ({ ...preset, builtIn: false })) : [];
+  } catch (error) {
+    console.error("Failed to load presets:", error);
+    return [];
+  }
+};
+
+export const saveUserPresets = (presets: CalibrationPreset[]) => {
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets.filter((preset) => !preset.builtIn)));
+};
+
+export const loadActivePresetId = (): string => localStorage.getItem(ACTIVE_PRESET_KEY) ?? DEFAULT_PRESET_ID;
+
+export const saveActivePresetId = (id: string) => {
+  localStorage.setItem(ACTIVE_PRESET_KEY, id);
+};
+
+export const createPreset = (fields: Omit<CalibrationPreset, 'id' | 'builtIn'>): CalibrationPreset => ({
+  ...fields,
+  id: createPresetId(),
+  builtIn: false,
+});
+
+export const exportPresets = (presets: CalibrationPreset[], fileName: string) => {
+  const file: PresetFile = {
+    version: 1,
+    presets: presets.map(({ builtIn: _builtIn, ...preset }) => preset),
+  };
+  const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Importa presets de un archivo JSON; siempre reciben ids nuevos para no pisar los existentes
+export const importPresets = async (file: File): Promise<CalibrationPreset[]> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await file.text());
+  } catch {
+    throw new PresetImportError('invalid-json');
+  }
+
+  const candidates = Array.isArray(parsed) ? parsed : (parsed as PresetFile)?.presets;
+  if (!Array.isArray(candidates)) throw new PresetImportError('no-presets');
+
+  const presets = candidates.filter(isPreset).map((preset) => createPreset({
+    name: preset.name.trim(),
+    customPrompt: preset.customPrompt,
+    negativePrompt: preset.negativePrompt,
+    imageSize: preset.imageSize,
+  }));
+  if (presets.length === 0) throw new PresetImportError('none-valid');
+  return presets;
+};
@@ -0,0 +1,154 @@
+import { InvisibleEntity, VisualizationReference } from "../types";
+import { Locale } from "./i18n";
+import { RARITIES } from "./rarity";
+
+// Prompts compartidos por el cliente (calibración) y el servidor proxy, uno por idioma
+
+export const DEFAULT_PROMPTS: Record<Locale, string> = {
+  es: `Actúa como un escáner de realidad aumentada avanzado. Tu objetivo es detectar "capas ocultas" sobre la realidad física.
+1. ANALIZA la imagen proporcionada: Identifica la geometría de la habitación, las superficies planas (mesas, suelos), la iluminación actual y los objetos visibles.
+2. GENERA una 'Entidad Invisible' que se integre FÍSICAMENTE en este entorno.
+   - Si hay una mesa, la entidad debe estar apoyada en ella.
+   - Si hay una esquina oscura, la entidad debe estar escondida allí.
+   - La iluminación de la entidad debe coincidir con la de la foto.
+3. NO inventes un escenario de fantasía aleatorio. La descripción debe sonar creíble y estar ANCLADA a lo que ves en la cámara.
+Responde ÚNICAMENTE en JSON válido según el esquema.`,
+  en: `Act as an advanced augmented reality scanner. Your goal is to detect "hidden layers" over physical reality.
+1. ANALYZE the provided image: Identify the geometry of the room, the flat surfaces (tables, floors), the current lighting and the visible objects.
+2. GENERATE an 'Invisible Entity' that fits PHYSICALLY into this environment.
+   - If there is a table, the entity must rest on it.
+   - If there is a dark corner, the entity must be hidden there.
+   - The lighting of the entity must match that of the photo.
+3. DO NOT invent a random fantasy setting. The description must sound believable and be ANCHORED to what you see through the camera.
+Reply ONLY with valid JSON following the schema.`,
+};
+
+// Se añade a todo prompt de escaneo: un prompt personalizado en otro idioma sigue respondiendo en el del visitante
+const OUTPUT_LANGUAGE: Record<Locale, string> = {
+  es: `IDIOMA: Escribe todos los campos de texto en español. 'rarity' debe ser exactamente una de las claves: ${RARITIES.join(', ')}.`,
+  en: `LANGUAGE: Write every text field in English. 'rarity' must be exactly one of the keys: ${RARITIES.join(', ')}.`,
+};
+
+// Entidades ya descubiertas en la sesión ("mundo coherente"), de la más antigua a la más reciente
+const buildWorldContext = (world: InvisibleEntity[], locale: Locale) => {
+  const list = world
+    .map((entity) => `- "${entity.title}" (${entity.rarity}): ${entity.description}${entity.relatedTo ? ` [${entity.relatedTo.relation}: "${entity.relatedTo.title}"]` : ''}`)
+    .join('\n');
+  return locale === 'en'
+    ? `COHERENT WORLD: these entities were discovered earlier in this session (not necessarily in this place), oldest first:
+${list}
+The new entity belongs to the same world. It may be an evolution of one of them, its offspring, its predator, a trace it left, or simply coexist with them.
+If it is related to one, fill 'relatedTo' with its exact title and the relation. If not, leave 'relatedTo' out. Do not repeat an existing entity.`
+    : `MUNDO COHERENTE: estas entidades se descubrieron antes en esta sesión (no necesariamente en este lugar), de la más antigua a la más reciente:
+${list}
+La nueva entidad pertenece al mismo mundo. Puede ser una evolución de alguna, su cría, su depredador, un rastro que dejó o simplemente convivir con ellas.
+Si está relacionada con una, rellena 'relatedTo' con su título exacto y la relación. Si no, omite 'relatedTo'. No repitas una entidad existente.`;
+};
+
+export const buildScanPrompt = (prompt: string, locale: Locale, world: InvisibleEntity[] = []) =>
+  `${prompt}
+${world.length > 0 ? `
+${buildWorldContext(world, locale)}
+` : ''}
+${OUTPUT_LANGUAGE[locale]}`;
+
+export const buildCorrectivePrompt = (prompt: string, issues: string[], locale: Locale) =>
+  locale === 'en'
+    ? `${prompt}
+
+CORRECTION: Your previous answer did not follow the schema (${issues.join('; ')}).
+Answer again with ALL the required fields and 'rarity' exactly equal to one of: ${RARITIES.join(', ')}.`
+    : `${prompt}
+
+CORRECCIÓN: Tu respuesta anterior no cumplía el esquema (${issues.join('; ')}).
+Responde de nuevo con TODOS los campos requeridos y 'rarity' exactamente igual a uno de: ${RARITIES.join(', ')}.`;
+
+// Prompt optimizado para REALISMO INTEGRADO con soporte para Negativo
+export const buildVisualizationPrompt = (entity: InvisibleEntity, negativePrompt: string, locale: Locale) =>
+  locale === 'en'
+    ? `Realistic macro photograph or cinematic medium shot.
+    Subject: ${entity.description}.
+    Style and Materials: ${entity.visualStyle}.
+    CONTEXT: The object must look real, tangible and physical.
+    Lighting: Consistent with a real photograph (shadows, reflections, textures).
+    IMPORTANT - EXCLUSIONS (NEGATIVE PROMPT): ${negativePrompt || "None"}.
+    DO NOT generate: text, frames, cartoons, flat concept art, or anything listed in the exclusions. It must look like a real photo of a strange phenomenon.`
+    : `Fotografía macro realista o plano medio cinematográfico.
+    Objeto: ${entity.description}.
+    Estilo y Materiales: ${entity.visualStyle}.
+    CONTEXTO: El objeto debe parecer real, tangible y físico.
+    Iluminación: Coherente con una fotografía real (sombras, reflejos, texturas).
+    IMPORTANTE - EXCLUSIONES (NEGATIVE PROMPT): ${negativePrompt || "Ninguno"}.
+    NO generes: texto, marcos, dibujos animados, arte conceptual plano, ni nada listado en las exclusiones. Debe parecer una foto real de un fenómeno extraño.`;
+
+// Acompaña a la imagen de referencia: refinarla con una instrucción o hacer una variación
+export const buildReferencePrompt = (
+  entity: InvisibleEntity,
+  negativePrompt: string,
+  reference: VisualizationReference,
+  locale: Locale
+) =>
+  locale === 'en'
+    ? `${reference.instruction
+        ? `Edit this image of the entity applying the following instruction: "${reference.instruction}".
+    Keep the identity of the entity, the framing and the lighting except for what the instruction asks.`
+        : `Create a variation of this image: the same entity, with its materials and style, but with another pose, angle or composition.`}
+    Entity: ${entity.description}.
+    Style and Materials: ${entity.visualStyle}.
+    IMPORTANT - EXCLUSIONS (NEGATIVE PROMPT): ${negativePrompt || "None"}.
+    It must still look like a real photo of a strange phenomenon. DO NOT add text or frames.`
+    : `${reference.instruction
+        ? `Edita esta imagen de la entidad aplicando la siguiente instrucción: "${reference.instruction}".
+    Conserva la identidad de la entidad, el encuadre y la iluminación salvo lo que pida la instrucción.`
+        : `Crea una variación de esta imagen: la misma entidad, con sus materiales y estilo, pero con otra pose, ángulo o composición.`}
+    Entidad: ${entity.description}.
+    Estilo y Materiales: ${entity.visualStyle}.
+    IMPORTANTE - EXCLUSIONES (NEGATIVE PROMPT): ${negativePrompt || "Ninguno"}.
+    Debe seguir pareciendo una foto real de un fenómeno extraño. NO añadas texto ni marcos.`;
+
+export const buildCompositePrompt = (entity: InvisibleEntity, negativePrompt: string, locale: Locale) => {
+  const anchor = entity.anchor;
+  return locale === 'en'
+    ? `Edit this real photograph and insert the following entity into it, without altering the rest of the scene.
+    Entity: ${entity.description}.
+    Style and Materials: ${entity.visualStyle}.
+    Placement: respect the described position and the visible geometry (surfaces, corners, depth).${anchor
+      ? ` Center the entity at ${Math.round(anchor.x * 100)}% horizontally and ${Math.round(anchor.y * 100)}% vertically in the image, covering approx. ${Math.round(anchor.width * 100)}% x ${Math.round(anchor.height * 100)}%.`
+      : ''}
+    Lighting: the same as the original photo, with shadows and reflections consistent with the real objects.
+    IMPORTANT - EXCLUSIONS (NEGATIVE PROMPT): ${negativePrompt || "None"}.
+    Keep the framing, perspective and grain of the photo. DO NOT add text or frames.`
+    : `Edita esta fotografía real e inserta en ella la siguiente entidad, sin alterar el resto de la escena.
+    Entidad: ${entity.description}.
+    Estilo y Materiales: ${entity.visualStyle}.
+    Ubicación: respeta la posición descrita y la geometría visible (superficies, esquinas, profundidad).${anchor
+      ? ` Centra la entidad en el ${Math.round(anchor.x * 100)}% horizontal y ${Math.round(anchor.y * 100)}% vertical de la imagen, ocupando aprox. ${Math.round(anchor.width * 100)}% x ${Math.round(anchor.height * 100)}%.`
+      : ''}
+    Iluminación: igual a la de la foto original, con sombras y reflejos coherentes sobre los objetos reales.
+    IMPORTANTE - EXCLUSIONES (NEGATIVE PROMPT): ${negativePrompt || "Ninguno"}.
+    Conserva encuadre, perspectiva y grano de la foto. NO añadas texto ni marcos.`;
+};
+
+// Instrucción de sistema del chat "Interrogar": la entidad responde en primera persona sin contradecir su ficha
+export const buildInterrogationInstruction = (entity: InvisibleEntity, locale: Locale) =>
+  locale === 'en'
+    ? `You are the invisible entity described in this record, discovered by an augmented reality scanner:
+${JSON.stringify(entity, null, 2)}
+Answer the visitor's questions in the first person, in character, in English.
+- Stay consistent with your record: your meaning, your age (${entity.estimatedAge}), your materials and the place where you were found in the snapshot.
+- Never contradict what you said earlier in this conversation.
+- If asked about something your record does not cover, invent it coherently with it, in a mysterious but clear tone.
+- Never mention that you are an AI, a model or a game. Answer in at most 4 sentences.`
+    : `Eres la entidad invisible descrita en esta ficha, descubierta por un escáner de realidad aumentada:
+${JSON.stringify(entity, null, 2)}
+Responde a las preguntas del visitante en primera persona, sin salir del personaje, en español.
+- Mantente coherente con tu ficha: tu significado, tu edad (${entity.estimatedAge}), tus materiales y el lugar donde te encontraron en la captura.
+- No contradigas nunca lo que hayas dicho antes en esta conversación.
+- Si te preguntan algo que tu ficha no cubre, invéntalo de forma coherente con ella, con un tono misterioso pero claro.
+- No menciones nunca que eres una IA, un modelo o un juego. Responde en 4 frases como máximo.`;
+
+// Primer turno del chat: acompaña a la captura original en la que apareció la entidad
+export const INTERROGATION_SEED: Record<Locale, string> = {
+  es: "Esta es la captura de la cámara en la que te descubrieron. Recuerda dónde estás antes de responder.",
+  en: "This is the camera snapshot in which you were discovered. Remember where you are before answering.",
+};
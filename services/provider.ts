@@ -0,0 +1,92 @@
+import { GenerationOptions, InterrogationMessage, InvisibleEntity, VisualizationReference } from "../types";
+import { geminiProvider } from "./gemini";
+import { mockProvider } from "./mock";
+import { withSafetyGate } from "./safety";
+import { CallOptions } from "./retry";
+import { Locale } from "./i18n";
+
+export type ProviderId = 'gemini' | 'mock';
+
+// Called with the fields readable so far while the entity text streams in
+export type PartialEntityListener = (partial: Partial<InvisibleEntity>) => void;
+
+// Called once per variant as soon as it resolves; url is null when that variant failed,
+// and `censored` tells a variant withheld by the safety filters apart from a plain failure
+export type ImageListener = (index: number, url: string | null, censored?: boolean) => void;
+
+export interface ProviderCallOptions extends CallOptions {
+  // Idioma de los prompts y del texto generado (por defecto, español)
+  locale?: Locale;
+}
+
+export interface ScanCallOptions extends ProviderCallOptions {
+  onPartial?: PartialEntityListener;
+  // Previous entities of the session in coherent world mode; the new one may relate to them
+  world?: InvisibleEntity[];
+}
+
+export interface VisualizeCallOptions extends ProviderCallOptions {
+  onImage?: ImageListener;
+  // Regenerates from an existing image instead of from the entity text alone
+  reference?: VisualizationReference;
+}
+
+// Tiempos límite por defecto de cada operación (ms)
+export const DEFAULT_TIMEOUTS = {
+  scan: 45_000,
+  visualize: 90_000,
+  composite: 90_000,
+  interrogate: 30_000,
+};
+
+// Contrato común de los motores de visión / generación de imágenes
+export interface VisionProvider {
+  id: ProviderId; // its name in the interface is t.providers[id]
+  // Without network its scans are queued (see services/scanQueue)
+  requiresNetwork: boolean;
+  scanForInvisibleEntity: (
+    base64Image: string,
+    customPrompt: string,
+    options?: ScanCallOptions
+  ) => Promise<InvisibleEntity>;
+  generateEntityVisualization: (
+    entity: InvisibleEntity,
+    generation: GenerationOptions,
+    negativePrompt: string,
+    options?: VisualizeCallOptions
+  ) => Promise<string[]>;
+  // Devuelve la captura original editada con la entidad insertada, o null si falla
+  compositeEntityIntoScene: (
+    entity: InvisibleEntity,
+    base64Image: string,
+    negativePrompt: string,
+    options?: ProviderCallOptions
+  ) => Promise<string | null>;
+  // Una respuesta de la entidad en el chat "Interrogar"; transcript son los turnos ya contestados
+  interrogateEntity: (
+    entity: InvisibleEntity,
+    base64Image: string,
+    transcript: InterrogationMessage[],
+    question: string,
+    options?: ProviderCallOptions
+  ) => Promise<string>;
+}
+
+// Every provider goes through the local denylist, the simulator included
+const PROVIDERS: Record<ProviderId, VisionProvider> = {
+  gemini: withSafetyGate(geminiProvider),
+  mock: withSafetyGate(mockProvider),
+};
+
+export const listProviders = (): VisionProvider[] => Object.values(PROVIDERS);
+
+export const getProvider = (id: ProviderId): VisionProvider => PROVIDERS[id];
+
+const isProviderId = (value: unknown): value is ProviderId =>
+  typeof value === 'string' && value in PROVIDERS;
+
+// VISION_PROVIDER en .env.local elige el backend por defecto
+export const getDefaultProviderId = (): ProviderId => {
+  const configured = process.env.VISION_PROVIDER;
+  return isProviderId(configured) ? configured : 'gemini';
+};
@@ -0,0 +1,20 @@
+/// <reference types="vite/client" />
+
+// Registers public/sw.js. Only in production builds: in dev it would cache Vite's unbundled modules.
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', async () => {
+    try {
+      const registration = await navigator.serviceWorker.register('/sw.js');
+      await navigator.serviceWorker.ready;
+      // Hand over what this first load already fetched, so the next one works offline too
+      const urls = performance.getEntriesByType('resource')
+        .map((entry) => entry.name)
+        .filter((url) => url.startsWith(location.origin) && !url.startsWith(`${location.origin}/api/`));
+      registration.active?.postMessage({ type: 'cache-urls', urls });
+    } catch (error) {
+      console.warn("Service worker registration failed:", error);
+    }
+  });
+};
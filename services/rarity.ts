@@ -0,0 +1,16 @@
+import { Rarity } from "../types";
+import { LOCALES, getMessages } from "./i18n";
+
+export const RARITIES: Rarity[] = ['common', 'rare', 'legendary', 'artifact'];
+
+const normalize = (value: string) =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+
+// Key or label in any locale ('legendary', 'Legendario', 'LEGENDARY') → key.
+// Also reads scans saved before rarities had stable keys.
+export const parseRarity = (value: string): Rarity | undefined => {
+  const text = normalize(value);
+  return RARITIES.find((rarity) =>
+    rarity === text || LOCALES.some((locale) => normalize(getMessages(locale).rarity[rarity]) === text)
+  );
+};
@@ -0,0 +1,97 @@
+import { RequestTimeoutError } from "./errors";
+
+// Timeouts, cancellation and exponential-backoff retry shared by the client and the proxy
+
+export interface CallOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  signal?: AbortSignal;
+}
+
+export const DEFAULT_RETRY: RetryOptions = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+};
+
+const abortError = () => new DOMException("Operación cancelada.", 'AbortError');
+
+// Espera cancelable: rechaza con AbortError si la señal se activa
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(abortError());
+    return;
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// 429 and 5xx are transient; everything else (4xx, validation, abort) fails immediately
+export const isRetryable = (error: unknown): boolean => {
+  const status = (error as { status?: unknown })?.status;
+  return typeof status === 'number' && (status === 429 || status >= 500);
+};
+
+export const withRetry = async <T>(
+  operation: (attempt: number) => Promise<T>,
+  { retries, baseDelayMs, maxDelayMs, signal }: RetryOptions = DEFAULT_RETRY
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= retries || signal?.aborted || !isRetryable(error)) throw error;
+
+      const retryAfterMs = (error as { retryAfterMs?: number }).retryAfterMs;
+      // Si el servidor pide esperar más que nuestro máximo, no insistimos
+      if (retryAfterMs !== undefined && retryAfterMs > maxDelayMs) throw error;
+
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt) * (0.75 + Math.random() * 0.5);
+      console.warn(`Retrying after ${Math.round(retryAfterMs ?? backoff)} ms:`, error);
+      await sleep(retryAfterMs ?? backoff, signal);
+    }
+  }
+};
+
+// Combines the caller's signal with a timeout. Call `dispose` when the request settles.
+export const withTimeout = ({ signal, timeoutMs }: CallOptions) => {
+  const controller = new AbortController();
+  const forwardAbort = () => controller.abort(signal?.reason);
+  let timedOut = false;
+
+  if (signal?.aborted) forwardAbort();
+  signal?.addEventListener('abort', forwardAbort, { once: true });
+
+  const timer = timeoutMs
+    ? setTimeout(() => {
+        timedOut = true;
+        controller.abort(new RequestTimeoutError(timeoutMs));
+      }, timeoutMs)
+    : undefined;
+
+  return {
+    signal: controller.signal,
+    // Converts the generic AbortError of a timed-out request into RequestTimeoutError
+    rethrow: (error: unknown): never => {
+      if (timedOut) throw new RequestTimeoutError(timeoutMs!);
+      throw error;
+    },
+    dispose: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', forwardAbort);
+    },
+  };
+};
@@ -0,0 +1,94 @@
+import { InvisibleEntity } from "../types";
+import { ContentBlockedError } from "./errors";
+import type { VisionProvider } from "./provider";
+
+// Filtro local para exposiciones abiertas a menores: una lista de términos prohibidos que se aplica
+// al prompt, al prompt negativo y al texto de cada entidad, además de los filtros de Gemini
+
+const DENYLIST_KEY = 'ojo-alucinatorio:denylist';
+
+// Both languages at once: a custom prompt may be written in either.
+// Words that usually appear as exclusions in negative prompts (gore, blood...) are left out on purpose.
+export const DEFAULT_DENYLIST = [
+  'nude', 'naked', 'sex', 'sexual', 'porn', 'erotic', 'corpse', 'suicide', 'self-harm',
+  'cocaine', 'heroin', 'murder', 'torture', 'nazi', 'gun', 'rifle',
+  'desnudo', 'desnuda', 'sexo', 'porno', 'erotico', 'cadaver', 'suicidio', 'autolesion',
+  'cocaina', 'heroina', 'asesinato', 'tortura', 'pistola', 'fusil',
+];
+
+// "Cadáver", "CADAVER" y "cadaver" son el mismo término
+const normalize = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// One term per line or comma; blank and repeated terms are dropped
+export const parseDenylist = (text: string): string[] =>
+  [...new Set(text.split(/[\n,]/).map((term) => normalize(term.trim())).filter(Boolean))];
+
+export const loadDenylist = (): string[] => {
+  try {
+    const stored = localStorage.getItem(DENYLIST_KEY);
+    return stored === null ? DEFAULT_DENYLIST : parseDenylist(stored);
+  } catch {
+    return DEFAULT_DENYLIST;
+  }
+};
+
+export const saveDenylist = (terms: string[]) => {
+  localStorage.setItem(DENYLIST_KEY, terms.join('\n'));
+};
+
+// Whole words only, plurals included: "gun" matches "guns" but not "begun"
+export const findDeniedTerms = (texts: string[], denylist: string[]): string[] => {
+  const haystack = normalize(texts.join('\n'));
+  return denylist.filter((term) => new RegExp(`(^|[^a-z0-9])${escapeRegExp(term)}(e?s)?([^a-z0-9]|$)`).test(haystack));
+};
+
+const entityTexts = (entity: Partial<InvisibleEntity>): string[] =>
+  [entity.title, entity.description, entity.visualStyle, entity.meaning, entity.estimatedAge, entity.relatedTo?.title, entity.relatedTo?.relation]
+    .filter((text): text is string => !!text);
+
+const assertAllowed = (texts: string[]) => {
+  const denied = findDeniedTerms(texts, loadDenylist());
+  if (denied.length > 0) throw new ContentBlockedError('denylist', denied);
+};
+
+// Wraps a provider so nothing on the denylist is sent to it or comes back from it
+export const withSafetyGate = (provider: VisionProvider): VisionProvider => ({
+  ...provider,
+
+  scanForInvisibleEntity: async (base64Image, customPrompt, options = {}) => {
+    assertAllowed([customPrompt]);
+    const { onPartial } = options;
+    let withheld = false;
+    const entity = await provider.scanForInvisibleEntity(base64Image, customPrompt, {
+      ...options,
+      // Streamed text stops showing as soon as a denied term appears in it
+      onPartial: onPartial && ((partial) => {
+        withheld ||= findDeniedTerms(entityTexts(partial), loadDenylist()).length > 0;
+        if (!withheld) onPartial(partial);
+      }),
+    });
+    assertAllowed(entityTexts(entity));
+    return entity;
+  },
+
+  generateEntityVisualization: async (entity, generation, negativePrompt, options) => {
+    assertAllowed([negativePrompt, ...entityTexts(entity), options?.reference?.instruction ?? '']);
+    return provider.generateEntityVisualization(entity, generation, negativePrompt, options);
+  },
+
+  // Same contract as the providers: a composite that cannot be made is just missing
+  compositeEntityIntoScene: async (entity, base64Image, negativePrompt, options) => {
+    if (findDeniedTerms([negativePrompt, ...entityTexts(entity)], loadDenylist()).length > 0) return null;
+    return provider.compositeEntityIntoScene(entity, base64Image, negativePrompt, options);
+  },
+
+  interrogateEntity: async (entity, base64Image, transcript, question, options) => {
+    assertAllowed([question]);
+    const answer = await provider.interrogateEntity(entity, base64Image, transcript, question, options);
+    assertAllowed([answer]);
+    return answer;
+  },
+});
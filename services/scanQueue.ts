@@ -0,0 +1,77 @@
+import { QueuedScan, ScanResult, TileStatus } from "../types";
+import { DEFAULT_TIMEOUTS, getProvider } from "./provider";
+import { DailyCapReachedError, isAbortError } from "./errors";
+import { listQueuedScans, listScans, putQueuedScan, removeQueuedScan, saveScan } from "./storage";
+import { findRevisit } from "./geo";
+import { recordDiscovery } from "./bestiary";
+
+// Capturas hechas sin conexión: se guardan en IndexedDB y se revelan al volver la red
+
+// A frame that keeps failing while online is dropped instead of blocking the queue forever
+const MAX_ATTEMPTS = 3;
+
+export const queueScan = (scan: Omit<QueuedScan, 'attempts'>): Promise<void> =>
+  putQueuedScan({ ...scan, attempts: 0 });
+
+// The same two steps as a live scan, without the in-scene composite
+const resolveQueuedScan = async (queued: QueuedScan, signal: AbortSignal): Promise<ScanResult> => {
+  const provider = getProvider(queued.providerId);
+  const options = { signal, locale: queued.locale };
+  const entity = await provider.scanForInvisibleEntity(queued.image, queued.prompt, {
+    ...options,
+    world: queued.world,
+    timeoutMs: DEFAULT_TIMEOUTS.scan,
+  });
+  const statuses: TileStatus[] = Array.from({ length: queued.generation.variantCount }, () => 'failed');
+  const visualizations = await provider.generateEntityVisualization(entity, queued.generation, queued.negativePrompt, {
+    ...options,
+    timeoutMs: DEFAULT_TIMEOUTS.visualize,
+    onImage: (index, url, censored) => {
+      statuses[index] = url ? 'done' : censored ? 'censored' : 'failed';
+    },
+  });
+  return {
+    id: queued.id,
+    image: queued.image,
+    entity,
+    generatedVisualizations: visualizations.length > 0 ? visualizations : undefined,
+    tileStatuses: statuses,
+    aspectRatio: queued.generation.aspectRatio,
+    source: queued.source,
+    location: queued.location,
+    timestamp: queued.timestamp,
+  };
+};
+
+// Works through the queue oldest first and archives each result in the gallery.
+// Stops early when the network drops again; returns the scans it revealed.
+export const processScanQueue = async (signal: AbortSignal): Promise<ScanResult[]> => {
+  const revealed: ScanResult[] = [];
+  for (const queued of await listQueuedScans()) {
+    if (signal.aborted || !navigator.onLine) break;
+    try {
+      // Same rule as a live scan: a frame taken at a known spot brings that entity back.
+      // Checked now rather than at capture, so frames queued earlier at the same spot count too.
+      const revisit = queued.location ? findRevisit(queued.location, await listScans().catch(() => [])) : null;
+      if (revisit?.entity) {
+        await removeQueuedScan(queued.id);
+        recordDiscovery(revisit, true, queued.timestamp);
+        revealed.push(revisit);
+        continue;
+      }
+
+      const scan = await resolveQueuedScan(queued, signal);
+      await saveScan(scan);
+      await removeQueuedScan(queued.id);
+      recordDiscovery(scan, false, queued.timestamp);
+      revealed.push(scan);
+    } catch (error) {
+      // Waiting for the network or for tomorrow's budget is not the frame's fault
+      if (isAbortError(error) || !navigator.onLine || error instanceof DailyCapReachedError) break;
+      console.error("Failed to resolve queued scan:", error);
+      if (queued.attempts + 1 >= MAX_ATTEMPTS) await removeQueuedScan(queued.id);
+      else await putQueuedScan({ ...queued, attempts: queued.attempts + 1 });
+    }
+  }
+  return revealed;
+};
@@ -0,0 +1,169 @@
+import { ScanResult } from "../types";
+import { Locale, getMessages } from "./i18n";
+
+// Renders a ScanResult as a portrait PNG card and hands it to the Web Share API or a download
+
+const CARD_WIDTH = 1080;
+const CARD_HEIGHT = 1620;
+const PADDING = 72;
+
+export interface ShareCardOptions {
+  visualization?: string; // Data URL of the chosen image; falls back to the snapshot
+  accentColor: string;
+  locale: Locale;
+}
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error("No se pudo cargar la imagen de la tarjeta."));
+  img.src = src;
+});
+
+// Escribe texto con salto de línea y devuelve la coordenada Y final
+const drawWrappedText = (
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  x: number,
+  y: number,
+  maxWidth: number,
+  lineHeight: number,
+  maxLines: number
+): number => {
+  const words = text.split(/\s+/);
+  let line = '';
+  let lines = 0;
+
+  for (let i = 0; i < words.length; i++) {
+    const candidate = line ? `${line} ${words[i]}` : words[i];
+    if (ctx.measureText(candidate).width > maxWidth && line) {
+      if (lines === maxLines - 1) {
+        ctx.fillText(`${line}…`, x, y);
+        return y + lineHeight;
+      }
+      ctx.fillText(line, x, y);
+      y += lineHeight;
+      lines++;
+      line = words[i];
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) {
+    ctx.fillText(line, x, y);
+    y += lineHeight;
+  }
+  return y;
+};
+
+export const renderShareCard = async (result: ScanResult, { visualization, accentColor, locale }: ShareCardOptions): Promise<Blob> => {
+  const entity = result.entity;
+  if (!entity) throw new Error("No hay entidad que compartir.");
+  const { entity: entityLabels, rarity: rarityLabels } = getMessages(locale);
+  const labels = { ...entityLabels, rarity: rarityLabels[entity.rarity] };
+
+  const canvas = document.createElement('canvas');
+  canvas.width = CARD_WIDTH;
+  canvas.height = CARD_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas no disponible.");
+
+  await document.fonts?.ready;
+
+  // Background
+  ctx.fillStyle = '#09090b';
+  ctx.fillRect(0, 0, CARD_WIDTH, CARD_HEIGHT);
+
+  // Visualization (square crop)
+  const imageSize = CARD_WIDTH - PADDING * 2;
+  const image = await loadImage(visualization ?? result.image);
+  const crop = Math.min(image.naturalWidth, image.naturalHeight);
+  ctx.save();
+  ctx.beginPath();
+  ctx.roundRect(PADDING, PADDING, imageSize, imageSize, 32);
+  ctx.clip();
+  ctx.drawImage(
+    image,
+    (image.naturalWidth - crop) / 2, (image.naturalHeight - crop) / 2, crop, crop,
+    PADDING, PADDING, imageSize, imageSize
+  );
+  ctx.restore();
+  ctx.strokeStyle = accentColor;
+  ctx.lineWidth = 3;
+  ctx.beginPath();
+  ctx.roundRect(PADDING, PADDING, imageSize, imageSize, 32);
+  ctx.stroke();
+
+  let y = PADDING + imageSize + 64;
+  const textWidth = CARD_WIDTH - PADDING * 2;
+
+  // Rarity badge
+  ctx.font = '600 26px "Space Grotesk", sans-serif';
+  const badge = labels.rarity.toUpperCase();
+  const badgeWidth = ctx.measureText(badge).width + 40;
+  ctx.strokeStyle = accentColor;
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.roundRect(PADDING, y - 34, badgeWidth, 48, 8);
+  ctx.stroke();
+  ctx.fillStyle = accentColor;
+  ctx.fillText(badge, PADDING + 20, y);
+  y += 76;
+
+  // Title
+  ctx.fillStyle = '#ffffff';
+  ctx.font = '700 60px "Space Grotesk", sans-serif';
+  y = drawWrappedText(ctx, entity.title, PADDING, y, textWidth, 68, 2) + 12;
+
+  // Description
+  ctx.fillStyle = 'rgba(255,255,255,0.8)';
+  ctx.font = '300 30px Inter, sans-serif';
+  y = drawWrappedText(ctx, entity.description, PADDING, y, textWidth, 42, 4) + 20;
+
+  // Meaning & age
+  ctx.font = '600 22px "Space Grotesk", sans-serif';
+  ctx.fillStyle = accentColor;
+  ctx.fillText(labels.meaning.toUpperCase(), PADDING, y);
+  ctx.font = '400 28px Inter, sans-serif';
+  ctx.fillStyle = 'rgba(255,255,255,0.7)';
+  y = drawWrappedText(ctx, entity.meaning, PADDING, y + 40, textWidth, 38, 2) + 16;
+
+  ctx.font = '600 22px "Space Grotesk", sans-serif';
+  ctx.fillStyle = accentColor;
+  ctx.fillText(labels.estimatedAge.toUpperCase(), PADDING, y);
+  ctx.font = '400 28px Inter, sans-serif';
+  ctx.fillStyle = 'rgba(255,255,255,0.7)';
+  drawWrappedText(ctx, entity.estimatedAge, PADDING, y + 40, textWidth, 38, 1);
+
+  // Footer
+  ctx.font = '400 22px "Space Grotesk", monospace';
+  ctx.fillStyle = 'rgba(255,255,255,0.35)';
+  ctx.fillText(new Date(result.timestamp).toLocaleString(locale), PADDING, CARD_HEIGHT - PADDING);
+  const brand = 'OJO ALUCINATORIO ONLINE';
+  ctx.fillText(brand, CARD_WIDTH - PADDING - ctx.measureText(brand).width, CARD_HEIGHT - PADDING);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("No se pudo generar la tarjeta."))), 'image/png');
+  });
+};
+
+const toFileName = (title: string) =>
+  `${title.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase() || 'anomalia'}.png`;
+
+// Devuelve 'shared' si se usó la Web Share API o 'downloaded' si se descargó el PNG
+export const shareCard = async (blob: Blob, title: string, text: string): Promise<'shared' | 'downloaded'> => {
+  const file = new File([blob], toFileName(title), { type: 'image/png' });
+
+  if (navigator.canShare?.({ files: [file] })) {
+    await navigator.share({ files: [file], title, text });
+    return 'shared';
+  }
+
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.name;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+  return 'downloaded';
+};
@@ -0,0 +1,143 @@
+import { QueuedScan, ScanResult, Rarity } from "../types";
+import { parseRarity } from "./rarity";
+
+// Local IndexedDB archive of completed scans (Galería)
+const DB_NAME = 'ojo-alucinatorio';
+// v2: rarity stored as a stable key ('legendary') instead of the Spanish label
+// v3: queue of frames captured offline
+const DB_VERSION = 3;
+const SCANS_STORE = 'scans';
+const QUEUE_STORE = 'queue';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const migrateRarityKeys = (store: IDBObjectStore) => {
+  store.openCursor().onsuccess = (event) => {
+    const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+    if (!cursor) return;
+    const scan = cursor.value as ScanResult;
+    const rarity = scan.entity && parseRarity(scan.entity.rarity);
+    if (scan.entity && rarity && rarity !== scan.entity.rarity) {
+      cursor.update({ ...scan, entity: { ...scan.entity, rarity } });
+    }
+    cursor.continue();
+  };
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("IndexedDB no está disponible en este navegador."));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SCANS_STORE)) {
+        const store = db.createObjectStore(SCANS_STORE, { keyPath: 'id' });
+        store.createIndex('timestamp', 'timestamp');
+      } else if (event.oldVersion < 2) {
+        migrateRarityKeys(request.transaction!.objectStore(SCANS_STORE));
+      }
+      if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+        db.createObjectStore(QUEUE_STORE, { keyPath: 'id' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+// Envuelve una operación sobre el store en una Promise
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName = SCANS_STORE
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const createScanId = (): string => {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+};
+
+export const saveScan = async (scan: ScanResult): Promise<void> => {
+  try {
+    await withStore('readwrite', (store) => store.put(scan));
+  } catch (error) {
+    console.error("Failed to save scan:", error);
+    throw error;
+  }
+};
+
+// Devuelve los escaneos guardados, del más reciente al más antiguo
+export const listScans = async (rarity?: Rarity): Promise<ScanResult[]> => {
+  try {
+    const scans = await withStore<ScanResult[]>('readonly', (store) => store.getAll());
+    return scans
+      .filter((scan) => !rarity || scan.entity?.rarity === rarity)
+      .sort((a, b) => b.timestamp - a.timestamp);
+  } catch (error) {
+    console.error("Failed to list scans:", error);
+    throw error;
+  }
+};
+
+export const deleteScan = async (id: string): Promise<void> => {
+  try {
+    await withStore('readwrite', (store) => store.delete(id));
+  } catch (error) {
+    console.error("Failed to delete scan:", error);
+    throw error;
+  }
+};
+
+// Cola de capturas sin conexión, de la más antigua a la más reciente
+export const listQueuedScans = async (): Promise<QueuedScan[]> => {
+  try {
+    const queued = await withStore<QueuedScan[]>('readonly', (store) => store.getAll(), QUEUE_STORE);
+    return queued.sort((a, b) => a.timestamp - b.timestamp);
+  } catch (error) {
+    console.error("Failed to list queued scans:", error);
+    throw error;
+  }
+};
+
+// Also used to store a new attempt count
+export const putQueuedScan = async (scan: QueuedScan): Promise<void> => {
+  try {
+    await withStore('readwrite', (store) => store.put(scan), QUEUE_STORE);
+  } catch (error) {
+    console.error("Failed to queue scan:", error);
+    throw error;
+  }
+};
+
+export const removeQueuedScan = async (id: string): Promise<void> => {
+  try {
+    await withStore('readwrite', (store) => store.delete(id), QUEUE_STORE);
+  } catch (error) {
+    console.error("Failed to remove queued scan:", error);
+    throw error;
+  }
+};
@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { assertWithinDailyCap, recordUsage, saveDailyCap } from './usage';
+import { DailyCapReachedError } from './errors';
+import { UsageRecord } from '../types';
+
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key),
+  };
+};
+
+// 1M output tokens of gemini-2.5-flash: $2.50
+const expensiveCall = (): UsageRecord => ({
+  operation: 'scan',
+  model: 'gemini-2.5-flash',
+  promptTokens: 0,
+  outputTokens: 1_000_000,
+  images: 0,
+  latencyMs: 1000,
+  success: true,
+  timestamp: Date.now(),
+});
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', memoryStorage());
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('assertWithinDailyCap', () => {
+  it('lets every call through without a cap', () => {
+    recordUsage([expensiveCall()]);
+
+    expect(() => assertWithinDailyCap()).not.toThrow();
+  });
+
+  it('blocks calls once today reaches the cap', () => {
+    saveDailyCap(2);
+    expect(() => assertWithinDailyCap()).not.toThrow();
+
+    recordUsage([expensiveCall()]);
+
+    expect(() => assertWithinDailyCap()).toThrow(DailyCapReachedError);
+  });
+});
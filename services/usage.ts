@@ -0,0 +1,125 @@
+import { UsageRecord } from "../types";
+import { DailyCapReachedError } from "./errors";
+
+// Contabilidad de uso: cada llamada al modelo que informa el proxy se guarda en localStorage
+// para mostrar totales por sesión y por día, y para aplicar el tope diario
+
+const USAGE_KEY = 'ojo-alucinatorio:usage';
+const CAP_KEY = 'ojo-alucinatorio:usage-cap';
+// Older records are pruned on every write
+const RETENTION_MS = 30 * 86_400_000;
+
+// A session is one page load
+const SESSION_START = Date.now();
+
+// Approximate list prices in USD per million tokens; image output is billed as tokens too
+const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-flash-image': { input: 0.3, output: 30 },
+  'gemini-3-pro-image-preview': { input: 2, output: 120 },
+};
+
+// Daily caps on the estimated cost, in USD; null means no cap
+export const DAILY_CAPS: (number | null)[] = [null, 0.5, 1, 2, 5];
+
+export interface UsageTotals {
+  requests: number;
+  failures: number;
+  promptTokens: number;
+  outputTokens: number;
+  images: number;
+  averageLatencyMs: number;
+  cost: number; // estimated, USD
+}
+
+const isUsageRecord = (value: unknown): value is UsageRecord => {
+  const record = value as UsageRecord;
+  return !!record
+    && typeof record.operation === 'string'
+    && typeof record.model === 'string'
+    && typeof record.promptTokens === 'number'
+    && typeof record.outputTokens === 'number'
+    && typeof record.images === 'number'
+    && typeof record.latencyMs === 'number'
+    && typeof record.success === 'boolean'
+    && typeof record.timestamp === 'number';
+};
+
+export const loadUsage = (): UsageRecord[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(USAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter(isUsageRecord) : [];
+  } catch (error) {
+    console.error("Failed to load usage:", error);
+    return [];
+  }
+};
+
+// Takes the `usage` field of a proxy response as is; anything malformed is ignored
+export const recordUsage = (usage: unknown) => {
+  if (!Array.isArray(usage)) return;
+  const incoming = usage.filter(isUsageRecord);
+  if (incoming.length === 0) return;
+  try {
+    const cutoff = Date.now() - RETENTION_MS;
+    const records = [...loadUsage().filter((record) => record.timestamp >= cutoff), ...incoming];
+    localStorage.setItem(USAGE_KEY, JSON.stringify(records));
+  } catch (error) {
+    // Accounting must never break a scan
+    console.error("Failed to record usage:", error);
+  }
+};
+
+export const estimateCost = (record: UsageRecord): number => {
+  const price = MODEL_PRICES[record.model];
+  if (!price) return 0;
+  return (record.promptTokens * price.input + record.outputTokens * price.output) / 1_000_000;
+};
+
+export const startOfToday = (): number => {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return today.getTime();
+};
+
+export const sessionStart = (): number => SESSION_START;
+
+export const summarizeUsage = (records: UsageRecord[], since: number): UsageTotals => {
+  const selected = records.filter((record) => record.timestamp >= since);
+  return {
+    requests: selected.length,
+    failures: selected.filter((record) => !record.success).length,
+    promptTokens: selected.reduce((sum, record) => sum + record.promptTokens, 0),
+    outputTokens: selected.reduce((sum, record) => sum + record.outputTokens, 0),
+    images: selected.reduce((sum, record) => sum + record.images, 0),
+    averageLatencyMs: selected.length > 0
+      ? selected.reduce((sum, record) => sum + record.latencyMs, 0) / selected.length
+      : 0,
+    cost: selected.reduce((sum, record) => sum + estimateCost(record), 0),
+  };
+};
+
+export const loadDailyCap = (): number | null => {
+  try {
+    const stored = Number(localStorage.getItem(CAP_KEY));
+    return DAILY_CAPS.includes(stored) ? stored : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveDailyCap = (cap: number | null) => {
+  if (cap === null) localStorage.removeItem(CAP_KEY);
+  else localStorage.setItem(CAP_KEY, String(cap));
+};
+
+export const isDailyCapReached = (cap = loadDailyCap()): boolean =>
+  cap !== null && summarizeUsage(loadUsage(), startOfToday()).cost >= cap;
+
+// Checked before every billable request, whichever screen or queue it comes from
+export const assertWithinDailyCap = () => {
+  const cap = loadDailyCap();
+  if (isDailyCapReached(cap)) throw new DailyCapReachedError(cap!);
+};
+
+export const formatCost = (usd: number): string => `$${usd < 1 ? usd.toFixed(3) : usd.toFixed(2)}`;
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { appendTiles, createVersion, getTileSlots } from './visualizationHistory';
+import { ScanResult } from '../types';
+
+const scan = (overrides: Partial<ScanResult>): ScanResult => ({
+  id: 'scan',
+  image: 'data:image/jpeg;base64,',
+  entity: null,
+  timestamp: 0,
+  ...overrides,
+});
+
+describe('getTileSlots', () => {
+  it('keeps failed and censored tiles in their place', () => {
+    const result = scan({ generatedVisualizations: ['a', 'b'], tileStatuses: ['done', 'censored', 'failed', 'done'] });
+
+    expect(getTileSlots(result)).toEqual([
+      { status: 'done', imageIndex: 0 },
+      { status: 'censored' },
+      { status: 'failed' },
+      { status: 'done', imageIndex: 1 },
+    ]);
+  });
+
+  it('treats scans saved without statuses as all done', () => {
+    expect(getTileSlots(scan({ generatedVisualizations: ['a', 'b'] }))).toEqual([
+      { status: 'done', imageIndex: 0 },
+      { status: 'done', imageIndex: 1 },
+    ]);
+  });
+
+  it('shows a fully censored result as censored tiles', () => {
+    expect(getTileSlots(scan({ tileStatuses: ['censored', 'censored'] })).map((slot) => slot.status)).toEqual(['censored', 'censored']);
+  });
+});
+
+describe('appendTiles', () => {
+  it('adds variations after the existing tiles, missing ones included', () => {
+    const result = appendTiles(
+      scan({ generatedVisualizations: ['a'], tileStatuses: ['failed', 'done'] }),
+      [createVersion('b', 'variation')],
+      ['censored']
+    );
+
+    expect(result.generatedVisualizations).toEqual(['a', 'b']);
+    expect(getTileSlots(result)).toEqual([
+      { status: 'failed' },
+      { status: 'done', imageIndex: 0 },
+      { status: 'done', imageIndex: 1 },
+      { status: 'censored' },
+    ]);
+  });
+});
@@ -0,0 +1,60 @@
+import { ScanResult, TileStatus, VisualizationAction, VisualizationVersion } from "../types";
+
+// Per-tile edit history of a ScanResult. generatedVisualizations[i] is the version shown for tile i.
+// The grid also keeps the images that never arrived (tileStatuses), so it reads the same after a reload.
+
+export interface TileSlot {
+  status: TileStatus;
+  imageIndex?: number; // into generatedVisualizations, only for 'done'
+}
+
+// Scans saved before tile statuses existed, or images past the recorded ones, count as done
+export const getTileStatuses = (result: ScanResult): TileStatus[] => {
+  const statuses = result.tileStatuses ?? [];
+  const recorded = statuses.filter((status) => status === 'done').length;
+  const extra = Math.max(0, (result.generatedVisualizations?.length ?? 0) - recorded);
+  return [...statuses, ...Array.from({ length: extra }, (): TileStatus => 'done')];
+};
+
+export const getTileSlots = (result: ScanResult): TileSlot[] => {
+  let next = 0;
+  return getTileStatuses(result).map((status) => (status === 'done' ? { status, imageIndex: next++ } : { status }));
+};
+
+export const createVersion = (url: string, action: VisualizationAction, instruction?: string): VisualizationVersion => ({
+  url,
+  action,
+  instruction,
+  timestamp: Date.now(),
+});
+
+// Scans saved before tile editing have no history: their images count as originals
+export const getHistory = (result: ScanResult): VisualizationVersion[][] =>
+  (result.generatedVisualizations ?? []).map((url, index) =>
+    result.visualizationHistory?.[index] ?? [{ url, action: 'original', timestamp: result.timestamp }]
+  );
+
+// Replaces the image of one tile, keeping the previous ones in its history
+export const addVersion = (result: ScanResult, index: number, version: VisualizationVersion): ScanResult => {
+  const history = getHistory(result);
+  return {
+    ...result,
+    generatedVisualizations: (result.generatedVisualizations ?? []).map((url, i) => (i === index ? version.url : url)),
+    visualizationHistory: history.map((versions, i) => (i === index ? [...versions, version] : versions)),
+  };
+};
+
+// Variations become new tiles, each starting its own history; the ones that did not arrive stay as missing tiles
+export const appendTiles = (result: ScanResult, versions: VisualizationVersion[], missing: TileStatus[] = []): ScanResult => ({
+  ...result,
+  generatedVisualizations: [...(result.generatedVisualizations ?? []), ...versions.map((version) => version.url)],
+  visualizationHistory: [...getHistory(result), ...versions.map((version) => [version])],
+  tileStatuses: [...getTileStatuses(result), ...versions.map((): TileStatus => 'done'), ...missing],
+});
+
+// Shows an earlier version again without discarding the later ones
+export const selectVersion = (result: ScanResult, index: number, url: string): ScanResult => ({
+  ...result,
+  generatedVisualizations: (result.generatedVisualizations ?? []).map((current, i) => (i === index ? url : current)),
+  visualizationHistory: getHistory(result),
+});
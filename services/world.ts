@@ -0,0 +1,52 @@
+import { InvisibleEntity } from "../types";
+
+// "Mundo coherente": las últimas entidades de la sesión viajan con cada escaneo
+// para que el modelo pueda hacerlas evolucionar o relacionarlas entre sí
+
+export interface WorldSettings {
+  enabled: boolean;
+  size: number; // how many previous entities are sent as context
+}
+
+export const WORLD_SIZES = [3, 5, 8];
+
+export const DEFAULT_WORLD: WorldSettings = {
+  enabled: false,
+  size: 5,
+};
+
+// The proxy rejects longer contexts; keeps the prompt bounded whatever the client sends
+export const MAX_WORLD_ENTITIES = Math.max(...WORLD_SIZES);
+
+// Context for the next scan: the most recent entities, oldest first
+export const selectWorld = (history: InvisibleEntity[], settings: WorldSettings): InvisibleEntity[] =>
+  settings.enabled ? history.slice(-settings.size) : [];
+
+// Drops a relation that does not point to one of the entities actually sent
+export const sanitizeRelation = (entity: InvisibleEntity, world: InvisibleEntity[]): InvisibleEntity => {
+  if (!entity.relatedTo) return entity;
+  const target = world.find((candidate) => candidate.title.trim().toLowerCase() === entity.relatedTo!.title.trim().toLowerCase());
+  const { relatedTo, ...rest } = entity;
+  if (!target || target.title === entity.title) return rest;
+  return { ...rest, relatedTo: { ...relatedTo, title: target.title } };
+};
+
+export interface ChainLink {
+  title: string;
+  relation: string;          // how the previous link in the chain relates to this one
+  entity?: InvisibleEntity;  // missing once the chain leaves the current session
+}
+
+// Follows relatedTo back through the session, newest to oldest; stops on unknown titles or cycles
+export const relationChain = (entity: InvisibleEntity, history: InvisibleEntity[]): ChainLink[] => {
+  const chain: ChainLink[] = [];
+  const visited = new Set([entity.title]);
+  let current: InvisibleEntity | undefined = entity;
+  while (current?.relatedTo && !visited.has(current.relatedTo.title)) {
+    const { title, relation } = current.relatedTo;
+    current = [...history].reverse().find((candidate) => candidate.title === title);
+    chain.push({ title, relation, entity: current });
+    visited.add(title);
+  }
+  return chain;
+};
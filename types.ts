@@ -1,17 +1,124 @@
+import type { Locale } from "./services/i18n";
+import type { ProviderId } from "./services/provider";
+
+// Normalized (0..1) region of the captured frame, centered on (x, y)
+export interface EntityAnchor {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Stable key; labels are localized (see services/locales)
+export type Rarity = 'common' | 'rare' | 'legendary' | 'artifact';
+
+// Link from an entity to an earlier one of the same "coherent world"
+export interface EntityRelation {
+  title: string;    // title of the earlier entity, exactly as it was given
+  relation: string; // how they are related, e.g. "its larva", "feeds on it"
+}
+
 export interface InvisibleEntity {
   title: string;
   description: string;
   visualStyle: string;
   meaning: string;
   estimatedAge: string;
-  rarity: 'Común' | 'Raro' | 'Legendario' | 'Artefacto';
+  rarity: Rarity;
+  anchor?: EntityAnchor; // Missing on scans saved before anchors existed
+  relatedTo?: EntityRelation; // Only in coherent world mode, when the model links it to a previous entity
+}
+
+export type ImageSize = '1K' | '2K' | '4K';
+
+export type AspectRatio = '1:1' | '3:4' | '4:3' | '9:16' | '16:9';
+
+export interface GenerationOptions {
+  imageSize: ImageSize;
+  aspectRatio: AspectRatio;
+  variantCount: number; // 1..4
+  seed?: number; // 0..2^31-1; variant i uses seed + i (wrapping), so a fixed seed reproduces the whole set
+}
+
+// Source image sent back to the model: a variation of it, or an edit following `instruction`
+export interface VisualizationReference {
+  image: string;
+  instruction?: string;
+}
+
+export type VisualizationAction = 'original' | 'regenerate' | 'variation' | 'refine';
+
+// Outcome of one requested image: shown, lost on the way, or withheld by the safety filters
+export type TileStatus = 'done' | 'failed' | 'censored';
+
+export interface VisualizationVersion {
+  url: string;
+  action: VisualizationAction;
+  instruction?: string; // Only for 'refine'
+  timestamp: number;
+}
+
+export type AppMode = 'intro' | 'scanner' | 'gallery' | 'bestiary' | 'map';
+
+// One turn of the "Interrogar" chat with a discovered entity
+export interface InterrogationMessage {
+  role: 'user' | 'entity';
+  text: string;
+  timestamp: number;
+}
+
+// Where a scan was taken and which way the camera was facing
+export interface GeoTag {
+  latitude: number;
+  longitude: number;
+  accuracy: number; // meters
+  heading: number | null; // compass degrees clockwise from north; null without a compass
 }
 
-export type AppMode = 'intro' | 'scanner' | 'gallery';
+// Where the scanned image came from
+export type ScanSource = 'camera' | 'upload';
+
+export type UsageOperation = 'scan' | 'visualize' | 'composite' | 'interrogate';
+
+// One call to the model provider (retries count separately), as reported by the proxy
+export interface UsageRecord {
+  operation: UsageOperation;
+  model: string;
+  promptTokens: number;
+  outputTokens: number; // thinking tokens included: they are billed as output
+  images: number;       // images returned by the call
+  latencyMs: number;
+  success: boolean;
+  timestamp: number;
+}
+
+// A frame captured without network, with everything needed to scan it once back online
+export interface QueuedScan {
+  id: string; // becomes the ScanResult id
+  image: string;
+  source: ScanSource;
+  location?: GeoTag;
+  providerId: ProviderId;
+  prompt: string;
+  negativePrompt: string;
+  generation: GenerationOptions;
+  locale: Locale;
+  world?: InvisibleEntity[]; // coherent world context at capture time; missing or empty means an independent scan
+  attempts: number; // failed tries while online; the frame is dropped after a few
+  timestamp: number;
+}
 
 export interface ScanResult {
+  id: string; // Clave en la galería local (IndexedDB)
   image: string; // Original Camera Snapshot
   entity: InvisibleEntity | null;
   generatedVisualizations?: string[]; // Array of AI Generated Images (x4)
+  compositeImage?: string; // Snapshot edited with the entity inserted in the scene
+  aspectRatio?: AspectRatio; // Aspect of generatedVisualizations
+  visualizationHistory?: VisualizationVersion[][]; // Edits of each tile, parallel to generatedVisualizations
+  tileStatuses?: TileStatus[]; // Every requested image in grid order; each 'done' is the next generatedVisualizations entry
+  source?: ScanSource; // Missing on scans saved before uploads existed (camera)
+  location?: GeoTag; // Only camera scans with location enabled
+  interrogation?: InterrogationMessage[]; // Transcript of the "Interrogar" chat, alternating user/entity
   timestamp: number;
 }
\ No newline at end of file
@@ -8,11 +8,17 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          // xfwd adds X-Forwarded-For, so the proxy can rate-limit each browser separately
+          '/api': {
+            target: `http://localhost:${env.PROXY_PORT || 8787}`,
+            xfwd: true,
+          },
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.VISION_PROVIDER': JSON.stringify(env.VISION_PROVIDER)
       },
       resolve: {
         alias: {